@@ -1,19 +1,36 @@
 import React from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { PaperProvider } from 'react-native-paper';
-import { AuthProvider } from './src/hooks/useAuth';
+import { AuthProvider, useAuth } from './src/hooks/useAuth';
 import { RootNavigator } from './src/navigation/RootNavigator';
 import { HabitsProvider } from './src/hooks/useHabits';
+import { SettingsProvider } from './src/hooks/useSettings';
+import { firestoreHabitRepository } from './src/services/habitService';
+import { localHabitRepository } from './src/services/localHabitRepository';
+
+/**
+ * Provide habits from the device for the local profile, or from Firestore
+ */
+function UserHabitsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const repository = user?.isLocal
+    ? localHabitRepository
+    : firestoreHabitRepository;
+
+  return <HabitsProvider repository={repository}>{children}</HabitsProvider>;
+}
 
 export default function App() {
   return (
     <PaperProvider>
-      <AuthProvider>
-        <HabitsProvider>
-          <RootNavigator />
-          <StatusBar style="auto" />
-        </HabitsProvider>
-      </AuthProvider>
+      <SettingsProvider>
+        <AuthProvider>
+          <UserHabitsProvider>
+            <RootNavigator />
+            <StatusBar style="auto" />
+          </UserHabitsProvider>
+        </AuthProvider>
+      </SettingsProvider>
     </PaperProvider>
   );
 }
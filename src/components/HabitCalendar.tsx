@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Pressable } from 'react-native';
+import { Text, IconButton } from 'react-native-paper';
+import { Habit } from '../types';
+import { colors } from '../constants/colors';
+import {
+  addDays,
+  addMonths,
+  getMonthStartKey,
+  getWeekStartKey,
+  parseDateKey,
+} from '../utils/dateKeys';
+import { DAY_NAMES, getHabitSchedule, getPeriodStart } from '../utils/schedule';
+import { isDatePaused } from '../utils/pauses';
+
+// Monday first, matching how weeks are counted
+const WEEK_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+interface HabitCalendarProps {
+  habit: Habit;
+  today: string;
+  selectedDate?: string;
+  onPressDate: (dateKey: string) => void;
+  onLongPressDate?: (dateKey: string) => void;
+}
+
+/**
+ * Label for the month containing a date key, e.g. "October 2026"
+ */
+const formatMonth = (monthKey: string): string =>
+  parseDateKey(monthKey).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+/**
+ * Get the weeks shown for a month, each a list of 7 date keys from Monday
+ */
+const getCalendarWeeks = (monthKey: string): string[][] => {
+  const nextMonth = addMonths(monthKey, 1);
+  const weeks: string[][] = [];
+
+  for (
+    let weekStart = getWeekStartKey(monthKey);
+    weekStart < nextMonth;
+    weekStart = addDays(weekStart, 7)
+  ) {
+    weeks.push(WEEK_DAYS.map((_, index) => addDays(weekStart, index)));
+  }
+  return weeks;
+};
+
+/**
+ * Habit Calendar Component
+ * A month of a habit's history. Completed days are filled with the habit's
+ * color, days with some logged progress are outlined, paused, skipped and
+ * frozen days are shaded, and days outside the schedule are dimmed. For habits
+ * being broken, days with a slip are shaded instead. Any day up to today can
+ * be pressed.
+ */
+export default function HabitCalendar({
+  habit,
+  today,
+  selectedDate,
+  onPressDate,
+  onLongPressDate,
+}: HabitCalendarProps) {
+  const [monthKey, setMonthKey] = useState(() => getMonthStartKey(today));
+  const schedule = getHabitSchedule(habit);
+  const habitColor = habit.color ?? colors.completed;
+  const completed = new Set(habit.completedDates);
+  const frozen = new Set(habit.frozenDates);
+  const slipped = new Set(habit.slips.map((slip) => slip.date));
+  const isCurrentMonth = monthKey === getMonthStartKey(today);
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <IconButton
+          icon="chevron-left"
+          onPress={() => setMonthKey(addMonths(monthKey, -1))}
+          accessibilityLabel="Previous month"
+        />
+        <Text variant="titleMedium">{formatMonth(monthKey)}</Text>
+        <IconButton
+          icon="chevron-right"
+          onPress={() => setMonthKey(addMonths(monthKey, 1))}
+          disabled={isCurrentMonth}
+          accessibilityLabel="Next month"
+        />
+      </View>
+
+      <View style={styles.week}>
+        {WEEK_DAYS.map((day) => (
+          <Text key={day} variant="labelSmall" style={styles.weekDay}>
+            {DAY_NAMES[day]}
+          </Text>
+        ))}
+      </View>
+
+      {getCalendarWeeks(monthKey).map((week) => (
+        <View key={week[0]} style={styles.week}>
+          {week.map((dateKey) => {
+            const inMonth = getMonthStartKey(dateKey) === monthKey;
+            const isFuture = dateKey > today;
+            const isCompleted = completed.has(dateKey);
+            const hasProgress = (habit.progress[dateKey] ?? 0) > 0;
+            const isScheduled = getPeriodStart(schedule, dateKey) !== null;
+            const isPaused = isDatePaused(habit.pauses, dateKey);
+            const isFrozen = frozen.has(dateKey);
+            const isSkipped = !!habit.skips[dateKey];
+            const isSlipped = slipped.has(dateKey);
+
+            return (
+              <Pressable
+                key={dateKey}
+                style={styles.cell}
+                disabled={isFuture || !inMonth}
+                onPress={() => onPressDate(dateKey)}
+                onLongPress={() => onLongPressDate?.(dateKey)}
+                accessibilityRole="button"
+                accessibilityLabel={dateKey}
+                accessibilityState={{
+                  checked: isCompleted,
+                  selected: dateKey === selectedDate,
+                  disabled: isFuture || !inMonth,
+                }}
+              >
+                {inMonth ? (
+                  <View
+                    style={[
+                      styles.day,
+                      !isScheduled && styles.dayUnscheduled,
+                      isPaused && styles.dayPaused,
+                      isFrozen && styles.dayFrozen,
+                      isSkipped && styles.daySkipped,
+                      isSlipped && styles.daySlipped,
+                      isFuture && styles.dayFuture,
+                      hasProgress && { borderColor: habitColor },
+                      isCompleted && { backgroundColor: habitColor },
+                      dateKey === today && styles.dayToday,
+                      dateKey === selectedDate && styles.daySelected,
+                    ]}
+                  >
+                    <Text
+                      variant="bodySmall"
+                      style={isCompleted && styles.dayTextCompleted}
+                    >
+                      {Number(dateKey.slice(8))}
+                    </Text>
+                  </View>
+                ) : null}
+              </Pressable>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  week: {
+    flexDirection: 'row',
+  },
+  weekDay: {
+    flex: 1,
+    textAlign: 'center',
+    opacity: 0.6,
+    marginBottom: 4,
+  },
+  cell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 3,
+  },
+  day: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: colors.transparent,
+  },
+  dayUnscheduled: {
+    opacity: 0.4,
+  },
+  dayPaused: {
+    backgroundColor: colors.paused,
+  },
+  dayFrozen: {
+    backgroundColor: colors.frozen,
+  },
+  daySkipped: {
+    backgroundColor: colors.skipped,
+  },
+  daySlipped: {
+    backgroundColor: colors.slipped,
+  },
+  dayFuture: {
+    opacity: 0.3,
+  },
+  dayToday: {
+    borderColor: colors.black,
+  },
+  daySelected: {
+    borderStyle: 'dashed',
+    borderColor: colors.black,
+  },
+  dayTextCompleted: {
+    color: colors.white,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,397 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import {
+  Text,
+  Card,
+  Checkbox,
+  Icon,
+  IconButton,
+  ProgressBar,
+} from 'react-native-paper';
+import { Habit, HabitSkip, HabitStreak } from '../types';
+import { colors } from '../constants/colors';
+import { SKIP_REASONS } from '../constants/habitOptions';
+import { formatSchedule, getStreakUnit, isHabitDueOn } from '../utils/schedule';
+import { formatProgress, isQuantitative } from '../utils/progress';
+import { isBreakingHabit } from '../utils/slips';
+import {
+  formatChallengeCountdown,
+  formatChallengeProgress,
+  getChallengeProgress,
+} from '../utils/challenges';
+import { RoutineStep } from '../utils/stacking';
+import {
+  getCheckedItems,
+  getRequiredItems,
+  hasChecklist,
+} from '../utils/checklist';
+
+interface HabitCardProps {
+  habit: Habit;
+  streak?: HabitStreak;
+  today: string;
+  pausedUntil?: string;
+  routineStep?: RoutineStep;
+  onPress: () => void;
+  onLongPress: () => void;
+  onToggle: () => void;
+  onIncrement: () => void;
+  onDecrement: () => void;
+  onLogSlip: () => void;
+  onDelete: () => void;
+  onStartRoutine?: () => void;
+  onToggleItem?: (itemId: string) => void;
+}
+
+/**
+ * Format a streak summary for display on a habit card
+ */
+const formatStreak = (
+  streak: HabitStreak | undefined,
+  unit: string
+): string => {
+  const current = streak?.current ?? 0;
+  const longest = streak?.longest ?? 0;
+  return `🔥 ${current} ${unit}${current === 1 ? '' : 's'} · Best ${longest}`;
+};
+
+/**
+ * Format the clean runs of a habit being broken
+ */
+const formatCleanStreak = (streak: HabitStreak | undefined): string => {
+  const current = streak?.current ?? 0;
+  const longest = streak?.longest ?? 0;
+  return `🌱 ${current} day${current === 1 ? '' : 's'} clean · Best ${longest}`;
+};
+
+/**
+ * Describe how many slips were logged today
+ */
+const formatSlipsToday = (count: number): string =>
+  count > 0 ? `${count} slip${count === 1 ? '' : 's'} today` : 'Clean today';
+
+/**
+ * Describe why a day was skipped
+ */
+const formatSkip = (skip: HabitSkip): string => {
+  const label =
+    SKIP_REASONS.find((option) => option.reason === skip.reason)?.label ??
+    skip.reason;
+  return skip.note ? `${label} (${skip.note})` : label;
+};
+
+/**
+ * Habit Card Component
+ * Shows a habit with its schedule, streak and today's completion controls.
+ * Quantitative habits get a progress bar with increment/decrement buttons,
+ * and habits being broken show their clean run with a button to log a slip.
+ * Challenges show their progress towards the goal and a countdown. Stacked
+ * habits show their step in the routine, and the next step is highlighted.
+ * Habits with a checklist can be expanded to check off each step for today.
+ * Paused habits are shaded. Tapping the card opens the habit, and a long
+ * press skips today with a reason.
+ */
+export default function HabitCard({
+  habit,
+  streak,
+  today,
+  pausedUntil,
+  routineStep,
+  onPress,
+  onLongPress,
+  onToggle,
+  onIncrement,
+  onDecrement,
+  onLogSlip,
+  onDelete,
+  onStartRoutine,
+  onToggleItem,
+}: HabitCardProps) {
+  const [showChecklist, setShowChecklist] = useState(false);
+  const isBreaking = isBreakingHabit(habit);
+  const slipsToday = habit.slips.filter((slip) => slip.date === today).length;
+  const isCompletedToday = habit.completedDates.includes(today);
+  const skipToday = habit.skips[today];
+  const isDueToday = isHabitDueOn(habit, today);
+  const amountToday = habit.progress[today] ?? 0;
+  const challenge = getChallengeProgress(habit, today);
+  const countdown = challenge && formatChallengeCountdown(challenge);
+  const checkedToday = getCheckedItems(habit, today);
+  const requiredItems = getRequiredItems(habit);
+
+  return (
+    <Card
+      style={[
+        styles.card,
+        !isDueToday && styles.cardNotDue,
+        pausedUntil && styles.cardPaused,
+        routineStep?.isNext && styles.cardUpNext,
+        habit.color ? { borderLeftColor: habit.color } : null,
+      ]}
+      mode="elevated"
+      onPress={onPress}
+      onLongPress={onLongPress}
+    >
+      <Card.Content>
+        {routineStep ? (
+          <View style={styles.routine}>
+            <Text variant="labelSmall" style={styles.routineLabel}>
+              {`🔗 ${routineStep.routine.title} · Step ${routineStep.index + 1} of ${routineStep.routine.habits.length}`}
+              {routineStep.isNext ? ' · Up next' : ''}
+            </Text>
+            {routineStep.index === 0 && onStartRoutine ? (
+              <IconButton
+                icon="play-circle-outline"
+                size={18}
+                style={styles.routineButton}
+                onPress={onStartRoutine}
+                accessibilityLabel={`Start ${routineStep.routine.title} routine`}
+              />
+            ) : null}
+          </View>
+        ) : null}
+        <View style={styles.habitHeader}>
+          {habit.icon ? (
+            <Icon
+              source={habit.icon}
+              size={28}
+              color={habit.color ?? colors.incomplete}
+            />
+          ) : null}
+          <View
+            style={[styles.habitInfo, habit.icon && styles.habitInfoWithIcon]}
+          >
+            <Text variant="titleMedium">{habit.title}</Text>
+            {habit.description ? (
+              <Text variant="bodySmall" style={styles.description}>
+                {habit.description}
+              </Text>
+            ) : null}
+            <Text variant="bodySmall" style={styles.frequency}>
+              {isBreaking
+                ? `Breaking · ${formatSlipsToday(slipsToday)}`
+                : formatSchedule(habit.schedule)}
+              {isBreaking
+                ? ''
+                : pausedUntil
+                  ? ` · ⏸️ Paused until ${pausedUntil}`
+                  : skipToday
+                    ? ` · Skipped: ${formatSkip(skipToday)}`
+                    : isDueToday
+                      ? ''
+                      : ' · Not due today'}
+            </Text>
+            <Text variant="bodySmall" style={styles.streak}>
+              {isBreaking
+                ? formatCleanStreak(streak)
+                : formatStreak(streak, getStreakUnit(habit.schedule))}
+            </Text>
+          </View>
+
+          <View style={styles.actions}>
+            {isBreaking ? (
+              <IconButton
+                icon="alert-octagon-outline"
+                size={32}
+                iconColor={slipsToday > 0 ? colors.delete : colors.incomplete}
+                onPress={onLogSlip}
+                accessibilityLabel="Log a slip"
+              />
+            ) : isQuantitative(habit) ? (
+              <>
+                <IconButton
+                  icon="minus-circle-outline"
+                  size={28}
+                  iconColor={colors.incomplete}
+                  disabled={amountToday === 0}
+                  onPress={onDecrement}
+                />
+                <IconButton
+                  icon="plus-circle"
+                  size={28}
+                  iconColor={
+                    isCompletedToday ? colors.completed : colors.incomplete
+                  }
+                  onPress={onIncrement}
+                />
+              </>
+            ) : (
+              <IconButton
+                icon={
+                  isCompletedToday
+                    ? 'check-circle'
+                    : skipToday
+                      ? 'debug-step-over'
+                      : 'circle-outline'
+                }
+                size={32}
+                iconColor={
+                  isCompletedToday ? colors.completed : colors.incomplete
+                }
+                onPress={onToggle}
+              />
+            )}
+            <IconButton
+              icon="delete"
+              size={20}
+              iconColor={colors.delete}
+              onPress={onDelete}
+            />
+          </View>
+        </View>
+
+        {isQuantitative(habit) ? (
+          <View style={styles.progress}>
+            <ProgressBar
+              progress={Math.min(1, amountToday / habit.target.value)}
+              color={isCompletedToday ? colors.completed : colors.incomplete}
+            />
+            <Text variant="bodySmall" style={styles.progressLabel}>
+              {formatProgress(amountToday, habit.target)}
+            </Text>
+          </View>
+        ) : null}
+
+        {hasChecklist(habit) ? (
+          <View style={styles.progress}>
+            <View style={styles.checklistHeader}>
+              <Text variant="bodySmall" style={styles.checklistLabel}>
+                {`☑️ ${checkedToday.length}/${habit.checklist.length} steps`}
+                {requiredItems < habit.checklist.length
+                  ? ` · ${requiredItems} needed`
+                  : ''}
+              </Text>
+              <IconButton
+                icon={showChecklist ? 'chevron-up' : 'chevron-down'}
+                size={18}
+                style={styles.routineButton}
+                onPress={() => setShowChecklist(!showChecklist)}
+                accessibilityLabel={
+                  showChecklist ? 'Hide checklist' : 'Show checklist'
+                }
+              />
+            </View>
+            {showChecklist
+              ? habit.checklist.map((item) => (
+                  <Checkbox.Item
+                    key={item.id}
+                    label={item.title}
+                    status={
+                      checkedToday.includes(item.id) ? 'checked' : 'unchecked'
+                    }
+                    onPress={() => onToggleItem?.(item.id)}
+                    disabled={!onToggleItem}
+                    color={colors.completed}
+                    position="leading"
+                    mode="android"
+                    labelVariant="bodyMedium"
+                    labelStyle={styles.checklistItem}
+                    style={styles.checklistRow}
+                  />
+                ))
+              : null}
+          </View>
+        ) : null}
+
+        {challenge ? (
+          <View style={styles.progress}>
+            <ProgressBar
+              progress={Math.min(1, challenge.completions / challenge.target)}
+              color={
+                challenge.status === 'failed'
+                  ? colors.delete
+                  : challenge.remaining === 0
+                    ? colors.completed
+                    : colors.challenge
+              }
+            />
+            <Text variant="bodySmall" style={styles.progressLabel}>
+              {formatChallengeProgress(challenge)}
+              {countdown ? ` · ⏳ ${countdown}` : ''}
+            </Text>
+          </View>
+        ) : null}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.transparent,
+  },
+  cardNotDue: {
+    opacity: 0.6,
+  },
+  cardPaused: {
+    backgroundColor: colors.paused,
+  },
+  cardUpNext: {
+    backgroundColor: colors.upNext,
+  },
+  routine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+    minHeight: 24,
+  },
+  routineLabel: {
+    flex: 1,
+    opacity: 0.7,
+  },
+  routineButton: {
+    margin: 0,
+  },
+  habitHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  habitInfo: {
+    flex: 1,
+  },
+  habitInfoWithIcon: {
+    marginLeft: 12,
+  },
+  description: {
+    marginTop: 4,
+    opacity: 0.7,
+  },
+  frequency: {
+    marginTop: 8,
+    opacity: 0.6,
+  },
+  streak: {
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  progress: {
+    marginTop: 12,
+  },
+  progressLabel: {
+    marginTop: 4,
+    opacity: 0.7,
+  },
+  checklistHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  checklistLabel: {
+    flex: 1,
+    opacity: 0.7,
+  },
+  checklistRow: {
+    paddingVertical: 0,
+    paddingHorizontal: 0,
+  },
+  checklistItem: {
+    textAlign: 'left',
+  },
+});
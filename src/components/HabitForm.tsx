@@ -0,0 +1,773 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Pressable } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  HelperText,
+  Chip,
+  Switch,
+  IconButton,
+  Menu,
+} from 'react-native-paper';
+import {
+  ChecklistItem,
+  Habit,
+  HabitInput,
+  HabitKind,
+  HabitSchedule,
+} from '../types';
+import { colors } from '../constants/colors';
+import { HABIT_COLORS, HABIT_ICONS } from '../constants/habitOptions';
+import {
+  DAY_NAMES,
+  getHabitSchedule,
+  getLegacyFrequency,
+} from '../utils/schedule';
+import {
+  MAX_TAGS_PER_HABIT,
+  TAG_MAX_LENGTH,
+  isSameTag,
+  normalizeTag,
+  uniqueTags,
+} from '../utils/tags';
+import { addDays } from '../utils/dateKeys';
+import { createChallenge } from '../utils/challenges';
+import { getStackOptions, validateStack } from '../utils/stacking';
+import {
+  CHECKLIST_ITEM_MAX_LENGTH,
+  CHECKLIST_MAX_ITEMS,
+  createChecklistItem,
+} from '../utils/checklist';
+import {
+  HABIT_DESCRIPTION_MAX_LENGTH,
+  HABIT_TITLE_MAX_LENGTH,
+  findHabitByTitle,
+  validateHabitInput,
+} from '../utils/habits';
+
+type ScheduleType = HabitSchedule['type'];
+
+const SCHEDULE_TYPES: { type: ScheduleType; label: string }[] = [
+  { type: 'daily', label: 'Daily' },
+  { type: 'weekly', label: 'Weekly' },
+  { type: 'monthly', label: 'Monthly' },
+  { type: 'weekdays', label: 'Specific days' },
+  { type: 'timesPerWeek', label: 'Times per week' },
+  { type: 'everyNDays', label: 'Every N days' },
+];
+
+const HABIT_KINDS: { kind: HabitKind; label: string }[] = [
+  { kind: 'build', label: '✅ Build a habit' },
+  { kind: 'break', label: '🚫 Break a habit' },
+];
+
+// Monday first, matching how weeks are counted
+const WEEK_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const CHALLENGE_LENGTHS = [7, 21, 30, 66];
+
+interface HabitFormProps {
+  initialValues?: HabitInput;
+  habits: Habit[];
+  availableTags: string[];
+  editingHabitId?: string;
+  today: string;
+  submitLabel: string;
+  onSubmit: (input: HabitInput) => Promise<void>;
+}
+
+/**
+ * Habit Form Component
+ * Edits every habit field, validates it and warns about duplicate titles.
+ * Whether a habit is being built or broken, and whether it tracks an amount,
+ * can only be chosen when it's created, since logged amounts, checkmarks and
+ * slips can't be turned into one another.
+ * Habits being broken are tracked every day, so they have no schedule.
+ * Any habit can be turned into a time-limited challenge with a goal, and
+ * habits being built can be stacked after another to form a routine.
+ */
+export default function HabitForm({
+  initialValues,
+  habits,
+  availableTags,
+  editingHabitId,
+  today,
+  submitLabel,
+  onSubmit,
+}: HabitFormProps) {
+  const initialSchedule = initialValues
+    ? getHabitSchedule(initialValues)
+    : undefined;
+  const initialTarget = initialValues?.target;
+  const isEditing = editingHabitId !== undefined;
+
+  const [kind, setKind] = useState<HabitKind>(initialValues?.kind ?? 'build');
+  const [title, setTitle] = useState(initialValues?.title ?? '');
+  const [description, setDescription] = useState(
+    initialValues?.description ?? ''
+  );
+  const [scheduleType, setScheduleType] = useState<ScheduleType>(
+    initialSchedule?.type ?? 'daily'
+  );
+  const [days, setDays] = useState<number[]>(
+    initialSchedule?.type === 'weekdays' ? initialSchedule.days : [1, 3, 5]
+  );
+  const [timesPerWeek, setTimesPerWeek] = useState(
+    initialSchedule?.type === 'timesPerWeek'
+      ? String(initialSchedule.count)
+      : '3'
+  );
+  const [repeatInterval, setRepeatInterval] = useState(
+    initialSchedule?.type === 'everyNDays'
+      ? String(initialSchedule.interval)
+      : '2'
+  );
+  const [tracksAmount, setTracksAmount] = useState(!!initialTarget);
+  const [targetValue, setTargetValue] = useState(
+    initialTarget ? String(initialTarget.value) : ''
+  );
+  const [targetUnit, setTargetUnit] = useState(initialTarget?.unit ?? '');
+  const [targetStep, setTargetStep] = useState(
+    initialTarget?.step ? String(initialTarget.step) : ''
+  );
+  const [color, setColor] = useState(initialValues?.color ?? HABIT_COLORS[0]);
+  const [icon, setIcon] = useState(initialValues?.icon ?? HABIT_ICONS[0]);
+  const initialChallenge = initialValues?.challenge ?? createChallenge(today);
+  const [hasChallenge, setHasChallenge] = useState(!!initialValues?.challenge);
+  const [challengeStart, setChallengeStart] = useState(
+    initialChallenge.startDate
+  );
+  const [challengeEnd, setChallengeEnd] = useState(initialChallenge.endDate);
+  const [challengeGoal, setChallengeGoal] = useState(
+    String(initialChallenge.targetCompletions)
+  );
+  const [followsHabitId, setFollowsHabitId] = useState<string | null>(
+    initialValues?.followsHabitId ?? null
+  );
+  const [stackMenuVisible, setStackMenuVisible] = useState(false);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>(
+    initialValues?.checklist ?? []
+  );
+  const [newChecklistItem, setNewChecklistItem] = useState('');
+  const [checklistThreshold, setChecklistThreshold] = useState(
+    initialValues?.checklistThreshold
+      ? String(initialValues.checklistThreshold)
+      : ''
+  );
+  const [tags, setTags] = useState<string[]>(initialValues?.tags ?? []);
+  const [newTag, setNewTag] = useState('');
+  const [localError, setLocalError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const duplicate = findHabitByTitle(habits, title, editingHabitId);
+  const stackOptions = getStackOptions(habits, editingHabitId);
+  const follows = habits.find((habit) => habit.id === followsHabitId);
+  // Tags being added in this form show up as chips straight away
+  const tagOptions = uniqueTags([...availableTags, ...tags]);
+
+  const buildSchedule = (): HabitSchedule => {
+    switch (scheduleType) {
+      case 'weekdays':
+        return { type: 'weekdays', days: [...days].sort((a, b) => a - b) };
+      case 'timesPerWeek':
+        return { type: 'timesPerWeek', count: Number(timesPerWeek) };
+      case 'everyNDays':
+        return {
+          type: 'everyNDays',
+          interval: Number(repeatInterval),
+          // Keep the original start so existing periods don't shift
+          startDate:
+            initialSchedule?.type === 'everyNDays'
+              ? initialSchedule.startDate
+              : today,
+        };
+      default:
+        return { type: scheduleType };
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    setDays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]
+    );
+  };
+
+  const toggleTag = (tag: string) => {
+    setTags((prev) =>
+      prev.some((t) => isSameTag(t, tag))
+        ? prev.filter((t) => !isSameTag(t, tag))
+        : [...prev, tag]
+    );
+  };
+
+  const applyChallengeLength = (length: number) => {
+    setChallengeEnd(addDays(challengeStart.trim(), length - 1));
+    setChallengeGoal(String(length));
+  };
+
+  const handleAddChecklistItem = () => {
+    if (!newChecklistItem.trim()) return;
+    setChecklist((prev) => [...prev, createChecklistItem(newChecklistItem)]);
+    setNewChecklistItem('');
+  };
+
+  const moveChecklistItemUp = (index: number) => {
+    setChecklist((prev) => [
+      ...prev.slice(0, index - 1),
+      prev[index],
+      prev[index - 1],
+      ...prev.slice(index + 1),
+    ]);
+  };
+
+  const removeChecklistItem = (itemId: string) => {
+    setChecklist((prev) => prev.filter((item) => item.id !== itemId));
+  };
+
+  const handleAddTag = () => {
+    const tag = normalizeTag(newTag);
+    if (!tag) return;
+    setTags((prev) => uniqueTags([...prev, tag]));
+    setNewTag('');
+  };
+
+  const handleSubmit = async () => {
+    setLocalError('');
+
+    const isBreaking = kind === 'break';
+    const usesChecklist = !isBreaking && !tracksAmount && checklist.length > 0;
+    const schedule: HabitSchedule = isBreaking
+      ? { type: 'daily' }
+      : buildSchedule();
+    const input: HabitInput = {
+      title: title.trim(),
+      description: description.trim(),
+      ...(isBreaking && { kind }),
+      frequency: getLegacyFrequency(schedule),
+      schedule,
+      color,
+      icon,
+      // Always included, so removing every tag clears them when editing
+      tags,
+      ...(tracksAmount &&
+        !isBreaking && {
+          target: {
+            value: Number(targetValue),
+            unit: targetUnit.trim(),
+            ...(targetStep.trim() && { step: Number(targetStep) }),
+          },
+        }),
+      ...(hasChallenge
+        ? {
+            challenge: {
+              startDate: challengeStart.trim(),
+              endDate: challengeEnd.trim(),
+              targetCompletions: Number(challengeGoal),
+            },
+          }
+        : // Turning the challenge off when editing removes it
+          initialValues?.challenge && { challenge: null }),
+      ...(followsHabitId && !isBreaking
+        ? { followsHabitId }
+        : initialValues?.followsHabitId && { followsHabitId: null }),
+      ...(usesChecklist
+        ? { checklist }
+        : // Removing every step when editing removes the checklist
+          !!initialValues?.checklist?.length && { checklist: [] }),
+      ...(usesChecklist && checklist.length > 1 && checklistThreshold.trim()
+        ? { checklistThreshold: Number(checklistThreshold) }
+        : initialValues?.checklistThreshold && { checklistThreshold: null }),
+    };
+
+    const validationError =
+      validateHabitInput(input) ??
+      (input.followsHabitId
+        ? validateStack(habits, editingHabitId, input.followsHabitId)
+        : null);
+    if (validationError) {
+      setLocalError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onSubmit(input);
+    } catch (err: unknown) {
+      setLocalError(
+        err instanceof Error ? err.message : 'Failed to save habit'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.chips}>
+        {HABIT_KINDS.map((option) => (
+          <Chip
+            key={option.kind}
+            selected={kind === option.kind}
+            onPress={() => setKind(option.kind)}
+            disabled={isEditing && kind !== option.kind}
+          >
+            {option.label}
+          </Chip>
+        ))}
+      </View>
+
+      <TextInput
+        label="Title"
+        value={title}
+        onChangeText={setTitle}
+        mode="outlined"
+        maxLength={HABIT_TITLE_MAX_LENGTH}
+        disabled={saving}
+      />
+      <HelperText type={duplicate ? 'error' : 'info'} visible={true}>
+        {duplicate
+          ? `You already have a habit called "${duplicate.title}"`
+          : `${title.trim().length}/${HABIT_TITLE_MAX_LENGTH}`}
+      </HelperText>
+
+      <TextInput
+        label="Description (optional)"
+        value={description}
+        onChangeText={setDescription}
+        mode="outlined"
+        multiline
+        maxLength={HABIT_DESCRIPTION_MAX_LENGTH}
+        disabled={saving}
+      />
+      <HelperText type="info" visible={true}>
+        {`${description.trim().length}/${HABIT_DESCRIPTION_MAX_LENGTH}`}
+      </HelperText>
+
+      {kind === 'build' ? (
+        <>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            How often
+          </Text>
+          <View style={styles.chips}>
+            {SCHEDULE_TYPES.map((option) => (
+              <Chip
+                key={option.type}
+                selected={scheduleType === option.type}
+                onPress={() => setScheduleType(option.type)}
+              >
+                {option.label}
+              </Chip>
+            ))}
+          </View>
+
+          {scheduleType === 'weekdays' ? (
+            <View style={styles.chips}>
+              {WEEK_DAYS.map((day) => (
+                <Chip
+                  key={day}
+                  selected={days.includes(day)}
+                  onPress={() => toggleDay(day)}
+                  compact
+                >
+                  {DAY_NAMES[day]}
+                </Chip>
+              ))}
+            </View>
+          ) : null}
+
+          {scheduleType === 'timesPerWeek' ? (
+            <TextInput
+              label="Times per week"
+              value={timesPerWeek}
+              onChangeText={setTimesPerWeek}
+              keyboardType="number-pad"
+              mode="outlined"
+              style={styles.field}
+            />
+          ) : null}
+
+          {scheduleType === 'everyNDays' ? (
+            <TextInput
+              label="Repeat every (days)"
+              value={repeatInterval}
+              onChangeText={setRepeatInterval}
+              keyboardType="number-pad"
+              mode="outlined"
+              style={styles.field}
+            />
+          ) : null}
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text variant="titleMedium">Track an amount</Text>
+              <Text variant="bodySmall" style={styles.hint}>
+                {isEditing
+                  ? 'Set when the habit was created'
+                  : 'e.g. 8 glasses of water a day'}
+              </Text>
+            </View>
+            <Switch
+              value={tracksAmount}
+              onValueChange={setTracksAmount}
+              disabled={isEditing}
+            />
+          </View>
+
+          {tracksAmount ? (
+            <View style={styles.targetRow}>
+              <TextInput
+                label="Target"
+                value={targetValue}
+                onChangeText={setTargetValue}
+                keyboardType="decimal-pad"
+                mode="outlined"
+                style={styles.targetField}
+              />
+              <TextInput
+                label="Unit"
+                value={targetUnit}
+                onChangeText={setTargetUnit}
+                mode="outlined"
+                style={styles.targetField}
+              />
+              <TextInput
+                label="Step"
+                value={targetStep}
+                onChangeText={setTargetStep}
+                placeholder="1"
+                keyboardType="decimal-pad"
+                mode="outlined"
+                style={styles.targetField}
+              />
+            </View>
+          ) : (
+            <>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Checklist
+              </Text>
+              <Text variant="bodySmall" style={styles.hint}>
+                Optional steps, e.g. tidy desk, plan tomorrow, close laptop. The
+                habit is done once enough steps are checked.
+              </Text>
+              {checklist.map((item, index) => (
+                <View key={item.id} style={styles.checklistRow}>
+                  <Text variant="bodyLarge" style={styles.checklistTitle}>
+                    {`${index + 1}. ${item.title}`}
+                  </Text>
+                  <IconButton
+                    icon="arrow-up"
+                    size={18}
+                    disabled={index === 0}
+                    onPress={() => moveChecklistItemUp(index)}
+                    accessibilityLabel={`Move ${item.title} up`}
+                  />
+                  <IconButton
+                    icon="close"
+                    size={18}
+                    onPress={() => removeChecklistItem(item.id)}
+                    accessibilityLabel={`Remove ${item.title}`}
+                  />
+                </View>
+              ))}
+              <TextInput
+                label="Add a step"
+                value={newChecklistItem}
+                onChangeText={setNewChecklistItem}
+                onSubmitEditing={handleAddChecklistItem}
+                maxLength={CHECKLIST_ITEM_MAX_LENGTH}
+                disabled={checklist.length >= CHECKLIST_MAX_ITEMS}
+                mode="outlined"
+                style={styles.field}
+                right={
+                  <TextInput.Icon
+                    icon="plus"
+                    onPress={handleAddChecklistItem}
+                    disabled={!newChecklistItem.trim()}
+                  />
+                }
+              />
+              {checklist.length > 1 ? (
+                <TextInput
+                  label="Steps needed"
+                  value={checklistThreshold}
+                  onChangeText={setChecklistThreshold}
+                  placeholder={`All ${checklist.length}`}
+                  keyboardType="number-pad"
+                  mode="outlined"
+                  style={styles.field}
+                />
+              ) : null}
+            </>
+          )}
+
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Stack after
+          </Text>
+          <Text variant="bodySmall" style={styles.hint}>
+            e.g. after I pour coffee, I will journal. Stacked habits are shown
+            together as a routine.
+          </Text>
+          <View style={styles.chips}>
+            <Menu
+              visible={stackMenuVisible}
+              onDismiss={() => setStackMenuVisible(false)}
+              anchor={
+                <Chip
+                  icon="link-variant"
+                  onPress={() => setStackMenuVisible(true)}
+                  disabled={!follows && stackOptions.length === 0}
+                  style={styles.stackChip}
+                >
+                  {follows ? `After ${follows.title}` : 'Not stacked'}
+                </Chip>
+              }
+            >
+              <Menu.Item
+                title="Not stacked"
+                leadingIcon={follows ? undefined : 'check'}
+                onPress={() => {
+                  setStackMenuVisible(false);
+                  setFollowsHabitId(null);
+                }}
+              />
+              {stackOptions.map((option) => (
+                <Menu.Item
+                  key={option.id}
+                  title={option.title}
+                  leadingIcon={
+                    option.id === followsHabitId ? 'check' : undefined
+                  }
+                  onPress={() => {
+                    setStackMenuVisible(false);
+                    setFollowsHabitId(option.id);
+                  }}
+                />
+              ))}
+            </Menu>
+          </View>
+        </>
+      ) : (
+        <Text variant="bodySmall" style={styles.hint}>
+          Log a slip whenever it happens. Every other day counts as a clean day.
+        </Text>
+      )}
+
+      <View style={styles.switchRow}>
+        <View style={styles.switchLabel}>
+          <Text variant="titleMedium">Challenge</Text>
+          <Text variant="bodySmall" style={styles.hint}>
+            {kind === 'break'
+              ? 'A goal of clean days between two dates'
+              : 'A goal to reach between two dates, e.g. 30 days in a row'}
+          </Text>
+        </View>
+        <Switch value={hasChallenge} onValueChange={setHasChallenge} />
+      </View>
+
+      {hasChallenge ? (
+        <>
+          <View style={styles.chips}>
+            {CHALLENGE_LENGTHS.map((length) => (
+              <Chip
+                key={length}
+                selected={
+                  addDays(challengeStart.trim(), length - 1) === challengeEnd
+                }
+                onPress={() => applyChallengeLength(length)}
+                compact
+              >
+                {`${length} days`}
+              </Chip>
+            ))}
+          </View>
+          <View style={styles.targetRow}>
+            <TextInput
+              label="Starts"
+              value={challengeStart}
+              onChangeText={setChallengeStart}
+              placeholder="YYYY-MM-DD"
+              mode="outlined"
+              style={styles.targetField}
+            />
+            <TextInput
+              label="Ends"
+              value={challengeEnd}
+              onChangeText={setChallengeEnd}
+              placeholder="YYYY-MM-DD"
+              mode="outlined"
+              style={styles.targetField}
+            />
+            <TextInput
+              label="Goal (days)"
+              value={challengeGoal}
+              onChangeText={setChallengeGoal}
+              keyboardType="number-pad"
+              mode="outlined"
+              style={styles.targetField}
+            />
+          </View>
+        </>
+      ) : null}
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Tags
+      </Text>
+      <View style={styles.chips}>
+        {tagOptions.map((tag) => (
+          <Chip
+            key={tag}
+            selected={tags.some((t) => isSameTag(t, tag))}
+            onPress={() => toggleTag(tag)}
+          >
+            {tag}
+          </Chip>
+        ))}
+      </View>
+      <TextInput
+        label="Add a tag"
+        value={newTag}
+        onChangeText={setNewTag}
+        onSubmitEditing={handleAddTag}
+        maxLength={TAG_MAX_LENGTH}
+        disabled={tags.length >= MAX_TAGS_PER_HABIT}
+        mode="outlined"
+        right={
+          <TextInput.Icon
+            icon="plus"
+            onPress={handleAddTag}
+            disabled={!newTag.trim()}
+          />
+        }
+      />
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Color
+      </Text>
+      <View style={styles.swatches}>
+        {HABIT_COLORS.map((option) => (
+          <Pressable
+            key={option}
+            accessibilityRole="button"
+            accessibilityLabel={`Color ${option}`}
+            accessibilityState={{ selected: color === option }}
+            onPress={() => setColor(option)}
+            style={[
+              styles.swatch,
+              { backgroundColor: option },
+              color === option && styles.swatchSelected,
+            ]}
+          />
+        ))}
+      </View>
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Icon
+      </Text>
+      <View style={styles.icons}>
+        {HABIT_ICONS.map((option) => (
+          <IconButton
+            key={option}
+            icon={option}
+            mode={icon === option ? 'contained' : undefined}
+            iconColor={icon === option ? color : colors.incomplete}
+            selected={icon === option}
+            onPress={() => setIcon(option)}
+          />
+        ))}
+      </View>
+
+      {localError ? (
+        <HelperText type="error" visible={true}>
+          {localError}
+        </HelperText>
+      ) : null}
+
+      <Button
+        mode="contained"
+        onPress={handleSubmit}
+        loading={saving}
+        disabled={saving}
+        style={styles.button}
+      >
+        {submitLabel}
+      </Button>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 20,
+    backgroundColor: colors.white,
+    flexGrow: 1,
+  },
+  sectionTitle: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  hint: {
+    opacity: 0.7,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  field: {
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  stackChip: {
+    marginTop: 8,
+  },
+  checklistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  checklistTitle: {
+    flex: 1,
+  },
+  targetRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  targetField: {
+    flex: 1,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: colors.black,
+  },
+  icons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  button: {
+    marginTop: 24,
+    paddingVertical: 6,
+  },
+});
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import {
+  Button,
+  Dialog,
+  HelperText,
+  IconButton,
+  Portal,
+  Text,
+  TextInput,
+} from 'react-native-paper';
+import { HabitNote } from '../types';
+import { colors } from '../constants/colors';
+import { MAX_RATING, NOTE_MAX_LENGTH } from '../utils/journal';
+
+const RATINGS = Array.from({ length: MAX_RATING }, (_, index) => index + 1);
+
+interface NoteDialogProps {
+  visible: boolean;
+  habitTitle: string;
+  date: string;
+  note?: HabitNote;
+  onDismiss: () => void;
+  onConfirm: (note: HabitNote | null) => Promise<void>;
+}
+
+/**
+ * Note Dialog Component
+ * Writes a note and an optional 1-5 rating for a completed day, or removes
+ * them. Tapping the selected star again clears the rating.
+ */
+export default function NoteDialog({
+  visible,
+  habitTitle,
+  date,
+  note,
+  onDismiss,
+  onConfirm,
+}: NoteDialogProps) {
+  const [text, setText] = useState('');
+  const [rating, setRating] = useState<number | undefined>(undefined);
+  const [localError, setLocalError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const currentText = note?.note ?? '';
+  const currentRating = note?.rating;
+
+  // Start from the day's current note each time the dialog opens
+  useEffect(() => {
+    if (!visible) return;
+    setText(currentText);
+    setRating(currentRating);
+    setLocalError('');
+  }, [visible, currentText, currentRating]);
+
+  const handleConfirm = async (next: HabitNote | null) => {
+    try {
+      setSaving(true);
+      await onConfirm(next);
+      onDismiss();
+    } catch (err: unknown) {
+      setLocalError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>How did it go?</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium">
+            {habitTitle} · {date}
+          </Text>
+          <View style={styles.ratings}>
+            {RATINGS.map((value) => (
+              <IconButton
+                key={value}
+                icon={rating && value <= rating ? 'star' : 'star-outline'}
+                iconColor={colors.rating}
+                onPress={() => setRating(rating === value ? undefined : value)}
+                accessibilityLabel={`Rate ${value} of ${MAX_RATING}`}
+              />
+            ))}
+          </View>
+          <TextInput
+            label="Note (optional)"
+            value={text}
+            onChangeText={setText}
+            placeholder="e.g. ran 5k, felt great"
+            maxLength={NOTE_MAX_LENGTH}
+            multiline
+            mode="outlined"
+          />
+          {localError ? (
+            <HelperText type="error" visible={true}>
+              {localError}
+            </HelperText>
+          ) : null}
+        </Dialog.Content>
+        <Dialog.Actions>
+          {note ? (
+            <Button onPress={() => handleConfirm(null)} disabled={saving}>
+              Remove
+            </Button>
+          ) : null}
+          <Button onPress={onDismiss} disabled={saving}>
+            {note ? 'Cancel' : 'Not Now'}
+          </Button>
+          <Button
+            onPress={() => handleConfirm({ note: text, rating })}
+            loading={saving}
+            disabled={saving}
+          >
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  ratings: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginVertical: 8,
+  },
+});
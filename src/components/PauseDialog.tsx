@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import {
+  Button,
+  Chip,
+  Dialog,
+  HelperText,
+  Portal,
+  Text,
+  TextInput,
+} from 'react-native-paper';
+import { HabitPause } from '../types';
+import { addDays } from '../utils/dateKeys';
+import { validatePause } from '../utils/pauses';
+
+const PRESETS = [
+  { label: 'Today', days: 1 },
+  { label: '3 days', days: 3 },
+  { label: '1 week', days: 7 },
+  { label: '2 weeks', days: 14 },
+];
+
+interface PauseDialogProps {
+  visible: boolean;
+  title: string;
+  description: string;
+  today: string;
+  onDismiss: () => void;
+  onConfirm: (pause: HabitPause) => Promise<void>;
+}
+
+/**
+ * Pause Dialog Component
+ * Picks the date range to pause habits for, starting today by default
+ */
+export default function PauseDialog({
+  visible,
+  title,
+  description,
+  today,
+  onDismiss,
+  onConfirm,
+}: PauseDialogProps) {
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(addDays(today, 6));
+  const [localError, setLocalError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Start from a fresh range each time the dialog opens
+  useEffect(() => {
+    if (!visible) return;
+    setStartDate(today);
+    setEndDate(addDays(today, 6));
+    setLocalError('');
+  }, [visible, today]);
+
+  const handleConfirm = async () => {
+    const pause = { startDate: startDate.trim(), endDate: endDate.trim() };
+    const validationError = validatePause(pause);
+    if (validationError) {
+      setLocalError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onConfirm(pause);
+      onDismiss();
+    } catch (err: unknown) {
+      setLocalError(err instanceof Error ? err.message : 'Failed to pause');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.description}>
+            {description}
+          </Text>
+          <View style={styles.chips}>
+            {PRESETS.map((preset) => (
+              <Chip
+                key={preset.label}
+                compact
+                selected={
+                  startDate === today &&
+                  endDate === addDays(today, preset.days - 1)
+                }
+                onPress={() => {
+                  setStartDate(today);
+                  setEndDate(addDays(today, preset.days - 1));
+                }}
+              >
+                {preset.label}
+              </Chip>
+            ))}
+          </View>
+          <View style={styles.dates}>
+            <TextInput
+              label="From"
+              value={startDate}
+              onChangeText={setStartDate}
+              placeholder="YYYY-MM-DD"
+              mode="outlined"
+              style={styles.date}
+            />
+            <TextInput
+              label="Until"
+              value={endDate}
+              onChangeText={setEndDate}
+              placeholder="YYYY-MM-DD"
+              mode="outlined"
+              style={styles.date}
+            />
+          </View>
+          {localError ? (
+            <HelperText type="error" visible={true}>
+              {localError}
+            </HelperText>
+          ) : null}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onPress={handleConfirm} loading={saving} disabled={saving}>
+            Pause
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  description: {
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  dates: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  date: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,226 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Animated,
+  PanResponder,
+  LayoutChangeEvent,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { Icon } from 'react-native-paper';
+import { colors } from '../constants/colors';
+
+interface ReorderableListProps<T> {
+  data: T[];
+  keyExtractor: (item: T) => string;
+  renderItem: (item: T) => React.ReactElement;
+  onReorder: (from: number, to: number) => void;
+  contentContainerStyle?: StyleProp<ViewStyle>;
+  ListEmptyComponent?: () => React.ReactElement;
+  ListFooterComponent?: () => React.ReactElement | null;
+  refreshControl?: React.ComponentProps<typeof ScrollView>['refreshControl'];
+}
+
+interface RowProps {
+  index: number;
+  shift: number;
+  dragging: boolean;
+  dragY: Animated.Value;
+  onLayout: (index: number, height: number) => void;
+  onDragStart: (index: number) => void;
+  onDragMove: (dy: number) => void;
+  onDragEnd: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * A row with a drag handle. The row follows the finger while it's dragged,
+ * and other rows are shifted out of the way of where it would be dropped.
+ */
+const Row = ({
+  index,
+  shift,
+  dragging,
+  dragY,
+  onLayout,
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+  children,
+}: RowProps) => {
+  // Handlers change with the row's index, the responder reads the latest
+  const handlers = useRef({ index, onDragStart, onDragMove, onDragEnd });
+  handlers.current = { index, onDragStart, onDragMove, onDragEnd };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: () =>
+          handlers.current.onDragStart(handlers.current.index),
+        onPanResponderMove: (_, gesture) =>
+          handlers.current.onDragMove(gesture.dy),
+        onPanResponderRelease: () => handlers.current.onDragEnd(),
+        onPanResponderTerminate: () => handlers.current.onDragEnd(),
+      }),
+    []
+  );
+
+  return (
+    <Animated.View
+      onLayout={(event: LayoutChangeEvent) =>
+        onLayout(index, event.nativeEvent.layout.height)
+      }
+      style={[
+        styles.row,
+        dragging
+          ? [styles.rowDragging, { transform: [{ translateY: dragY }] }]
+          : { transform: [{ translateY: shift }] },
+      ]}
+    >
+      <View
+        {...panResponder.panHandlers}
+        style={styles.handle}
+        accessibilityRole="adjustable"
+        accessibilityLabel="Drag to reorder"
+      >
+        <Icon source="drag-vertical" size={24} color={colors.incomplete} />
+      </View>
+      <View style={styles.content}>{children}</View>
+    </Animated.View>
+  );
+};
+
+/**
+ * Reorderable List Component
+ * A list whose items can be dragged into a new order by their handles, built
+ * on PanResponder and Animated. Dropping an item calls onReorder with its old
+ * and new index; the new order is up to the parent to save.
+ */
+export default function ReorderableList<T>({
+  data,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  contentContainerStyle,
+  ListEmptyComponent,
+  ListFooterComponent,
+  refreshControl,
+}: ReorderableListProps<T>) {
+  const heights = useRef<number[]>([]);
+  const dragY = useRef(new Animated.Value(0)).current;
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Read by the pan handlers, which outlive a single render
+  const drag = useRef<{ from: number; to: number } | null>(null);
+
+  /**
+   * Find where an item dragged by dy would be dropped
+   */
+  const getDropIndex = (from: number, dy: number): number => {
+    let to = from;
+    let offset = dy;
+    while (
+      to < data.length - 1 &&
+      offset > (heights.current[to + 1] ?? 0) / 2
+    ) {
+      offset -= heights.current[to + 1] ?? 0;
+      to++;
+    }
+    while (to > 0 && offset < -(heights.current[to - 1] ?? 0) / 2) {
+      offset += heights.current[to - 1] ?? 0;
+      to--;
+    }
+    return to;
+  };
+
+  const handleDragStart = (index: number) => {
+    drag.current = { from: index, to: index };
+    dragY.setValue(0);
+    setDragIndex(index);
+    setDropIndex(index);
+  };
+
+  const handleDragMove = (dy: number) => {
+    if (!drag.current) return;
+    dragY.setValue(dy);
+
+    const to = getDropIndex(drag.current.from, dy);
+    if (to !== drag.current.to) {
+      drag.current.to = to;
+      setDropIndex(to);
+    }
+  };
+
+  const handleDragEnd = () => {
+    const current = drag.current;
+    drag.current = null;
+    dragY.setValue(0);
+    setDragIndex(null);
+    setDropIndex(null);
+    if (current && current.from !== current.to) {
+      onReorder(current.from, current.to);
+    }
+  };
+
+  /**
+   * How far a row moves out of the way of the dragged one
+   */
+  const getShift = (index: number): number => {
+    if (dragIndex === null || dropIndex === null) return 0;
+    const draggedHeight = heights.current[dragIndex] ?? 0;
+    if (dragIndex < index && index <= dropIndex) return -draggedHeight;
+    if (dropIndex <= index && index < dragIndex) return draggedHeight;
+    return 0;
+  };
+
+  return (
+    <ScrollView
+      contentContainerStyle={contentContainerStyle}
+      scrollEnabled={dragIndex === null}
+      refreshControl={refreshControl}
+    >
+      {data.length === 0 && ListEmptyComponent ? <ListEmptyComponent /> : null}
+      {data.map((item, index) => (
+        <Row
+          key={keyExtractor(item)}
+          index={index}
+          shift={getShift(index)}
+          dragging={index === dragIndex}
+          dragY={dragY}
+          onLayout={(rowIndex, height) => {
+            heights.current[rowIndex] = height;
+          }}
+          onDragStart={handleDragStart}
+          onDragMove={handleDragMove}
+          onDragEnd={handleDragEnd}
+        >
+          {renderItem(item)}
+        </Row>
+      ))}
+      {ListFooterComponent ? <ListFooterComponent /> : null}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowDragging: {
+    zIndex: 1,
+    opacity: 0.9,
+  },
+  handle: {
+    paddingRight: 4,
+    paddingBottom: 12,
+  },
+  content: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import {
+  Button,
+  Chip,
+  Dialog,
+  HelperText,
+  Portal,
+  Text,
+  TextInput,
+} from 'react-native-paper';
+import { DayStatus, SkipReason } from '../types';
+import { SKIP_REASONS } from '../constants/habitOptions';
+
+const NOTE_MAX_LENGTH = 140;
+
+interface SkipDialogProps {
+  visible: boolean;
+  habitTitle: string;
+  date: string;
+  status: DayStatus;
+  onDismiss: () => void;
+  onConfirm: (status: DayStatus) => Promise<void>;
+}
+
+/**
+ * Skip Dialog Component
+ * Skips a day with a reason and an optional note, or removes the skip
+ */
+export default function SkipDialog({
+  visible,
+  habitTitle,
+  date,
+  status,
+  onDismiss,
+  onConfirm,
+}: SkipDialogProps) {
+  const [reason, setReason] = useState<SkipReason>('rest');
+  const [note, setNote] = useState('');
+  const [localError, setLocalError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const isSkipped = status.type === 'skipped';
+  const currentReason = isSkipped ? status.reason : 'rest';
+  const currentNote = isSkipped ? (status.note ?? '') : '';
+
+  // Start from the day's current skip each time the dialog opens
+  useEffect(() => {
+    if (!visible) return;
+    setReason(currentReason);
+    setNote(currentNote);
+    setLocalError('');
+  }, [visible, currentReason, currentNote]);
+
+  const handleConfirm = async (next: DayStatus) => {
+    try {
+      setSaving(true);
+      await onConfirm(next);
+      onDismiss();
+    } catch (err: unknown) {
+      setLocalError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>Skip {habitTitle}</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.description}>
+            {date} won&apos;t count as a miss.
+          </Text>
+          <View style={styles.chips}>
+            {SKIP_REASONS.map((option) => (
+              <Chip
+                key={option.reason}
+                selected={reason === option.reason}
+                onPress={() => setReason(option.reason)}
+              >
+                {option.label}
+              </Chip>
+            ))}
+          </View>
+          <TextInput
+            label="Note (optional)"
+            value={note}
+            onChangeText={setNote}
+            maxLength={NOTE_MAX_LENGTH}
+            mode="outlined"
+          />
+          {localError ? (
+            <HelperText type="error" visible={true}>
+              {localError}
+            </HelperText>
+          ) : null}
+        </Dialog.Content>
+        <Dialog.Actions>
+          {isSkipped ? (
+            <Button
+              onPress={() => handleConfirm({ type: 'none' })}
+              disabled={saving}
+            >
+              Remove Skip
+            </Button>
+          ) : null}
+          <Button onPress={onDismiss} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onPress={() =>
+              handleConfirm({ type: 'skipped', reason, note: note.trim() })
+            }
+            loading={saving}
+            disabled={saving}
+          >
+            Skip
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  description: {
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+import {
+  Button,
+  Dialog,
+  HelperText,
+  Portal,
+  Text,
+  TextInput,
+} from 'react-native-paper';
+import { isValidDateKey } from '../utils/dateKeys';
+import { SLIP_NOTE_MAX_LENGTH } from '../utils/slips';
+
+interface SlipDialogProps {
+  visible: boolean;
+  habitTitle: string;
+  date: string;
+  today: string;
+  onDismiss: () => void;
+  onConfirm: (date: string, note: string) => Promise<void>;
+}
+
+/**
+ * Slip Dialog Component
+ * Logs a slip of a habit being broken on a date up to today, with an optional
+ * note
+ */
+export default function SlipDialog({
+  visible,
+  habitTitle,
+  date: initialDate,
+  today,
+  onDismiss,
+  onConfirm,
+}: SlipDialogProps) {
+  const [date, setDate] = useState(initialDate);
+  const [note, setNote] = useState('');
+  const [localError, setLocalError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Start from a fresh slip each time the dialog opens
+  useEffect(() => {
+    if (!visible) return;
+    setDate(initialDate);
+    setNote('');
+    setLocalError('');
+  }, [visible, initialDate]);
+
+  const handleConfirm = async () => {
+    const slipDate = date.trim();
+    if (!isValidDateKey(slipDate)) {
+      setLocalError('Dates must be in YYYY-MM-DD format.');
+      return;
+    }
+    if (slipDate > today) {
+      setLocalError("Slips can't be logged in the future.");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onConfirm(slipDate, note.trim());
+      onDismiss();
+    } catch (err: unknown) {
+      setLocalError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>Log a slip</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.description}>
+            It happens. Logging it restarts your clean run for {habitTitle}.
+          </Text>
+          <TextInput
+            label="Date"
+            value={date}
+            onChangeText={setDate}
+            placeholder="YYYY-MM-DD"
+            mode="outlined"
+            style={styles.field}
+          />
+          <TextInput
+            label="What happened? (optional)"
+            value={note}
+            onChangeText={setNote}
+            maxLength={SLIP_NOTE_MAX_LENGTH}
+            mode="outlined"
+          />
+          {localError ? (
+            <HelperText type="error" visible={true}>
+              {localError}
+            </HelperText>
+          ) : null}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onPress={handleConfirm} loading={saving} disabled={saving}>
+            Log Slip
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  description: {
+    marginBottom: 12,
+  },
+  field: {
+    marginBottom: 8,
+  },
+});
@@ -1,6 +1,6 @@
-import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { initializeApp, type FirebaseApp } from 'firebase/app';
+import { getAuth, type Auth } from 'firebase/auth';
+import { getFirestore, type Firestore } from 'firebase/firestore';
 import { getAnalytics, isSupported, type Analytics } from 'firebase/analytics';
 import {
   FIREBASE_API_KEY,
@@ -23,29 +23,37 @@ const firebaseConfig = {
   measurementId: FIREBASE_MEASUREMENT_ID,
 };
 
-// Validate required env vars
-if (!FIREBASE_API_KEY || !FIREBASE_PROJECT_ID) {
-  throw new Error(
-    'Missing required Firebase environment variables. Check your .env file.'
+// Without the required env vars the app runs in local-only mode
+export const isFirebaseConfigured = Boolean(
+  FIREBASE_API_KEY && FIREBASE_PROJECT_ID
+);
+
+if (!isFirebaseConfigured) {
+  console.warn(
+    'Missing required Firebase environment variables. Accounts are disabled and habits are only stored on this device.'
   );
 }
 
 // Initialize Firebase
-const app = initializeApp(firebaseConfig);
+const app: FirebaseApp | null = isFirebaseConfigured
+  ? initializeApp(firebaseConfig)
+  : null;
 
 // Initialize Auth (automatically uses AsyncStorage for persistence in React Native)
-export const auth = getAuth(app);
+export const auth: Auth | null = app ? getAuth(app) : null;
 
 // Initialize Firestore
-export const db = getFirestore(app);
+export const db: Firestore | null = app ? getFirestore(app) : null;
 
 // Initialize Analytics (only if supported - web only)
 let analytics: Analytics | undefined;
-isSupported().then((supported) => {
-  if (supported) {
-    analytics = getAnalytics(app);
-  }
-});
+if (app) {
+  isSupported().then((supported) => {
+    if (supported) {
+      analytics = getAnalytics(app);
+    }
+  });
+}
 
 export { analytics };
 export default app;
@@ -9,4 +9,14 @@ export const colors = {
   error: '#c62828',
   mediumGray: '#ffebee',
   mediumRed: '#f44336',
+  pending: '#fff8e1',
+  transparent: 'transparent',
+  paused: '#eceff1',
+  frozen: '#e3f2fd',
+  skipped: '#f3e5f5',
+  slipped: '#ffcdd2',
+  rating: '#ffb300',
+  challenge: '#2196F3',
+  upNext: '#e8f5e9',
+  offline: '#e8eaf6',
 };
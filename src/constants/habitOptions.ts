@@ -0,0 +1,51 @@
+import { SkipReason } from '../types';
+
+/**
+ * Choices offered when creating or editing a habit
+ */
+
+export const HABIT_COLORS = [
+  '#4CAF50',
+  '#2196F3',
+  '#9C27B0',
+  '#E91E63',
+  '#FF9800',
+  '#F44336',
+  '#009688',
+  '#795548',
+  '#607D8B',
+];
+
+// MaterialCommunityIcons names
+export const HABIT_ICONS = [
+  'run',
+  'dumbbell',
+  'bike',
+  'walk',
+  'meditation',
+  'yoga',
+  'water',
+  'food-apple',
+  'bed',
+  'book-open-variant',
+  'pencil',
+  'translate',
+  'music',
+  'brush',
+  'code-tags',
+  'broom',
+  'cash',
+  'phone-off',
+  'pill',
+  'heart',
+  'sprout',
+  'star',
+];
+
+export const SKIP_REASONS: { reason: SkipReason; label: string }[] = [
+  { reason: 'rest', label: '😴 Rest day' },
+  { reason: 'injury', label: '🤕 Injury' },
+  { reason: 'sick', label: '🤒 Sick' },
+  { reason: 'holiday', label: '🏖️ Holiday' },
+  { reason: 'other', label: '📝 Other' },
+];
@@ -0,0 +1,156 @@
+import { HabitTemplatePack } from '../types';
+
+/**
+ * The built-in habit templates, grouped into starter packs
+ */
+
+const WORKDAYS = [1, 2, 3, 4, 5];
+
+export const HABIT_TEMPLATE_PACKS: HabitTemplatePack[] = [
+  {
+    id: 'morning-routine',
+    title: 'Morning routine',
+    description: 'Start every day awake, hydrated and clear-headed.',
+    icon: 'weather-sunset-up',
+    templates: [
+      {
+        id: 'drink-water',
+        title: 'Drink a glass of water',
+        description: 'First thing after waking up',
+        frequency: 'daily',
+        schedule: { type: 'daily' },
+        color: '#2196F3',
+        icon: 'water',
+        tags: ['Health'],
+      },
+      {
+        id: 'make-bed',
+        title: 'Make the bed',
+        description: 'An easy first win',
+        frequency: 'daily',
+        schedule: { type: 'daily' },
+        color: '#795548',
+        icon: 'bed',
+      },
+      {
+        id: 'meditate',
+        title: 'Meditate',
+        description: 'Sit quietly and focus on your breath',
+        frequency: 'daily',
+        schedule: { type: 'daily' },
+        target: { value: 10, unit: 'minutes', step: 5 },
+        color: '#9C27B0',
+        icon: 'meditation',
+        tags: ['Health'],
+      },
+      {
+        id: 'morning-journal',
+        title: 'Morning pages',
+        description: 'Write down whatever is on your mind',
+        frequency: 'daily',
+        schedule: { type: 'daily' },
+        color: '#607D8B',
+        icon: 'pencil',
+      },
+    ],
+  },
+  {
+    id: 'fitness-basics',
+    title: 'Fitness basics',
+    description: 'Move more with a routine that fits a busy week.',
+    icon: 'dumbbell',
+    templates: [
+      {
+        id: 'daily-steps',
+        title: 'Walk',
+        description: 'Get your steps in',
+        frequency: 'daily',
+        schedule: { type: 'daily' },
+        target: { value: 8000, unit: 'steps', step: 1000 },
+        color: '#4CAF50',
+        icon: 'walk',
+        tags: ['Health'],
+      },
+      {
+        id: 'strength-training',
+        title: 'Strength training',
+        description: 'A full-body workout',
+        frequency: 'weekly',
+        schedule: { type: 'timesPerWeek', count: 3 },
+        color: '#F44336',
+        icon: 'dumbbell',
+        tags: ['Health'],
+      },
+      {
+        id: 'run',
+        title: 'Go for a run',
+        frequency: 'weekly',
+        schedule: { type: 'timesPerWeek', count: 2 },
+        color: '#FF9800',
+        icon: 'run',
+        tags: ['Health'],
+      },
+      {
+        id: 'stretch',
+        title: 'Stretch',
+        description: 'Loosen up before bed',
+        frequency: 'daily',
+        schedule: { type: 'daily' },
+        color: '#009688',
+        icon: 'yoga',
+        tags: ['Health'],
+      },
+    ],
+  },
+  {
+    id: 'deep-work',
+    title: 'Deep work',
+    description: 'Protect time for focused, distraction-free work.',
+    icon: 'brain',
+    templates: [
+      {
+        id: 'focus-block',
+        title: 'Focus block',
+        description: 'Work on one thing with notifications off',
+        frequency: 'daily',
+        schedule: { type: 'weekdays', days: WORKDAYS },
+        target: { value: 2, unit: 'hours', step: 1 },
+        color: '#2196F3',
+        icon: 'code-tags',
+        tags: ['Work'],
+      },
+      {
+        id: 'plan-tomorrow',
+        title: 'Plan tomorrow',
+        description: "Pick the top three tasks for tomorrow's focus",
+        frequency: 'daily',
+        schedule: { type: 'weekdays', days: WORKDAYS },
+        color: '#607D8B',
+        icon: 'star',
+        tags: ['Work'],
+      },
+      {
+        id: 'read',
+        title: 'Read',
+        description: 'Books, not feeds',
+        frequency: 'daily',
+        schedule: { type: 'daily' },
+        target: { value: 20, unit: 'pages', step: 5 },
+        color: '#E91E63',
+        icon: 'book-open-variant',
+        tags: ['Learning'],
+      },
+      {
+        id: 'no-phone-mornings',
+        title: 'Phone in the morning',
+        description: 'Log a slip when you check it before starting work',
+        kind: 'break',
+        frequency: 'daily',
+        schedule: { type: 'daily' },
+        color: '#795548',
+        icon: 'phone-off',
+        tags: ['Work'],
+      },
+    ],
+  },
+];
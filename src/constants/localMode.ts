@@ -0,0 +1,14 @@
+import { User } from '../types';
+
+/**
+ * Pseudo-user for local-only mode, when habits are stored on this device
+ * without an account
+ */
+export const LOCAL_USER: User = {
+  uid: 'local',
+  email: null,
+  emailVerified: false,
+  displayName: 'Local profile',
+  photoURL: null,
+  isLocal: true,
+};
@@ -1,5 +1,7 @@
 import { useState, useEffect, createContext, useContext } from 'react';
 import { authService } from '../services/authService';
+import { useSettings } from './useSettings';
+import { LOCAL_USER } from '../constants/localMode';
 import { User, AuthContextType } from '../types';
 
 // Create context
@@ -14,12 +16,19 @@ interface AuthProviderProps {
 
 /**
  * Auth Provider Component
- * Wrap app with this to provide auth state
+ * Wrap app with this to provide auth state. Without an account, or in builds
+ * without Firebase, the user is the on-device local profile.
+ * Must be used within SettingsProvider
  */
 export function AuthProvider({ children }: AuthProviderProps) {
-  const [user, setUser] = useState<User | null>(null);
+  const [firebaseUser, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { settings, loading: settingsLoading, updateSettings } = useSettings();
+
+  const accountsAvailable = authService.isAvailable();
+  const isLocalMode = !accountsAvailable || settings.localMode;
+  const user = isLocalMode ? LOCAL_USER : firebaseUser;
 
   // Subscribe to auth state changes
   useEffect(() => {
@@ -41,6 +50,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       setLoading(true);
       const user = await authService.signUp(email, password);
       setUser(user);
+      await updateSettings({ localMode: false });
     } catch (err: unknown) {
       setError(
         err instanceof Error ? err.message : 'An unexpected error occurred'
@@ -60,6 +70,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       setLoading(true);
       const user = await authService.signIn(email, password);
       setUser(user);
+      await updateSettings({ localMode: false });
     } catch (err: unknown) {
       setError(
         err instanceof Error ? err.message : 'An unexpected error occurred'
@@ -71,12 +82,16 @@ export function AuthProvider({ children }: AuthProviderProps) {
   };
 
   /**
-   * Sign out current user
+   * Sign out current user, or leave the local profile
    */
   const signOut = async (): Promise<void> => {
     try {
       setError(null);
       setLoading(true);
+      if (settings.localMode) {
+        await updateSettings({ localMode: false });
+        return;
+      }
       await authService.signOut();
       setUser(null);
     } catch (err: unknown) {
@@ -89,6 +104,21 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  /**
+   * Use the app without an account, keeping habits on this device
+   */
+  const startLocalMode = async (): Promise<void> => {
+    try {
+      setError(null);
+      await updateSettings({ localMode: true });
+    } catch (err: unknown) {
+      setError(
+        err instanceof Error ? err.message : 'An unexpected error occurred'
+      );
+      throw err;
+    }
+  };
+
   /**
    * Clear error state
    */
@@ -98,11 +128,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const value: AuthContextType = {
     user,
-    loading,
+    loading: loading || settingsLoading,
     error,
+    accountsAvailable,
     signUp,
     signIn,
     signOut,
+    startLocalMode,
     clearError,
   };
 
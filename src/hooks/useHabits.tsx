@@ -1,7 +1,70 @@
-import { useState, useEffect, createContext, useContext } from 'react';
-import * as habitService from '../services/habitService';
+import {
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+  createContext,
+  useContext,
+} from 'react';
 import { useAuth } from './useAuth';
-import { Habit, HabitInput, HabitsContextType } from '../types';
+import { useSettings } from './useSettings';
+import { useSyncQueue } from './useSyncQueue';
+import { useHabitsSubscription } from './useHabitsSubscription';
+import { applyPendingOperations } from '../services/syncQueue';
+import {
+  DayStatus,
+  Habit,
+  HabitInput,
+  HabitNote,
+  HabitPause,
+  HabitRepository,
+  HabitSlip,
+  HabitsContextType,
+  PendingOperation,
+} from '../types';
+import {
+  calculateStreaks,
+  getAvailableStreakFreezes,
+  getFreezablePeriod,
+} from '../utils/streaks';
+import { addPause, endPause, validatePause } from '../utils/pauses';
+import { applySlip, createSlip, isBreakingHabit } from '../utils/slips';
+import {
+  applyNote,
+  canAddNote,
+  normalizeNote,
+  validateNote,
+} from '../utils/journal';
+import { DateKeyOptions, getTodayKey } from '../utils/dateKeys';
+import {
+  SORT_ORDER_STEP,
+  getListedMoveUpdates,
+  getSortOrder,
+  sortHabitsByOrder,
+} from '../utils/ordering';
+import { getTargetStep, isQuantitative } from '../utils/progress';
+import { getFollower, validateStack } from '../utils/stacking';
+import { getCheckedItems, hasChecklist, toggleItem } from '../utils/checklist';
+import {
+  getArchivedHabits,
+  getStatsEndKey,
+  isArchived,
+} from '../utils/archive';
+import {
+  applyDeletedAt,
+  getHabitsToPurge,
+  getTrashedHabits,
+  isTrashed,
+} from '../utils/trash';
+import {
+  applyCheckedItems,
+  applyDayStatus,
+  applyHabitUpdates,
+  applyLoggedProgress,
+  buildNewHabit,
+  validateHabitUpdates,
+  validateHabitInput,
+} from '../utils/habits';
 
 // Context for the habits state and actions
 const HabitsContext = createContext<HabitsContextType | undefined>(undefined);
@@ -12,41 +75,69 @@ const HabitsContext = createContext<HabitsContextType | undefined>(undefined);
  */
 interface HabitsProviderProps {
   children: React.ReactNode;
+  repository: HabitRepository;
 }
 
 /**
  * Habits Provider Component
  * Wrap app with this to provide habits state and actions
  */
-export function HabitsProvider({ children }: HabitsProviderProps) {
+export function HabitsProvider({ children, repository }: HabitsProviderProps) {
   const { user } = useAuth();
+  const { settings } = useSettings();
   const [habits, setHabits] = useState<Habit[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Subscribe to habits updates
-  useEffect(() => {
-    if (!user) {
-      setHabits([]);
-      setLoading(false);
-      return;
-    }
+  // The user's timezone and rollover hour, for turning moments into date keys
+  const dateKeyOptions = useMemo<DateKeyOptions>(
+    () => ({
+      timeZone: settings.timeZone,
+      rolloverHour: settings.dayRolloverHour,
+    }),
+    [settings.timeZone, settings.dayRolloverHour]
+  );
 
-    setLoading(true);
+  // Today's date key in the user's timezone, respecting the rollover hour
+  const [today, setToday] = useState(() => getTodayKey());
 
-    const unsubscribe = habitService.subscribeToHabits(
-      user.uid,
-      (updatedHabits) => {
-        setHabits(updatedHabits);
-        setLoading(false);
-      }
-    );
+  // Re-check the date every minute so the app rolls over to the next day
+  useEffect(() => {
+    const updateToday = () => setToday(getTodayKey(dateKeyOptions));
+    updateToday();
 
-    // Cleanup subscription
-    return () => {
-      unsubscribe();
-    };
-  }, [user]);
+    const interval = setInterval(updateToday, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [dateKeyOptions]);
+
+  // Archived habits and habits in the trash are kept off the daily list
+  const activeHabits = useMemo(
+    () => habits.filter((habit) => !isTrashed(habit) && !isArchived(habit)),
+    [habits]
+  );
+  const archivedHabits = useMemo(
+    () => getArchivedHabits(habits.filter((habit) => !isTrashed(habit))),
+    [habits]
+  );
+  const trashedHabits = useMemo(() => getTrashedHabits(habits), [habits]);
+
+  // Derived streaks, recalculated whenever habits or the date change.
+  // Archived habits keep theirs as they were on the day they were archived
+  const streaks = useMemo(
+    () =>
+      archivedHabits.reduce(
+        (acc, habit) => ({
+          ...acc,
+          ...calculateStreaks(
+            [habit],
+            getStatsEndKey(habit, today, dateKeyOptions),
+            dateKeyOptions
+          ),
+        }),
+        calculateStreaks(activeHabits, today, dateKeyOptions)
+      ),
+    [activeHabits, archivedHabits, today, dateKeyOptions]
+  );
 
   /**
    * Manually refresh habits from server
@@ -56,8 +147,10 @@ export function HabitsProvider({ children }: HabitsProviderProps) {
 
     try {
       setLoading(true);
-      const freshHabits = await habitService.getHabits(user.uid);
-      setHabits(freshHabits);
+      const freshHabits = await repository.getHabits(user.uid);
+      setHabits(
+        applyPendingOperations(freshHabits, user.uid, getPendingOperations())
+      );
     } catch (err: unknown) {
       const message =
         err instanceof Error ? err.message : 'Failed to refresh habits';
@@ -67,6 +160,65 @@ export function HabitsProvider({ children }: HabitsProviderProps) {
     }
   };
 
+  /**
+   * Handle a change the server rejected
+   */
+  const handleSyncFailure = (_operation: PendingOperation, err: Error) => {
+    setError(err.message);
+
+    // Rollback - refresh from server
+    refreshHabits();
+  };
+
+  // Durable outbox: every change is queued locally and replayed in order
+  const { pendingOperations, getPendingOperations, enqueue } = useSyncQueue(
+    repository,
+    user?.uid ?? null,
+    handleSyncFailure
+  );
+
+  // Reset habits when the user changes, until the subscription loads theirs
+  useEffect(() => {
+    if (!user) {
+      setHabits([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+
+    // Upgrade habits written by older versions of the app. Reads upgrade them
+    // in the meantime and a failed run resumes on the next sign in
+    repository.migrateHabits(user.uid).catch(() => undefined);
+  }, [user, repository]);
+
+  // The message of the subscription's last failure, cleared once it recovers
+  const subscriptionErrorRef = useRef<string | null>(null);
+
+  // Subscribe to habits updates, resubscribing after failures
+  const subscription = useHabitsSubscription(
+    repository,
+    user?.uid ?? null,
+    (updatedHabits) => {
+      if (!user) return;
+
+      // Keep changes the server hasn't seen yet
+      setHabits(
+        applyPendingOperations(updatedHabits, user.uid, getPendingOperations())
+      );
+      setLoading(false);
+
+      const subscriptionError = subscriptionErrorRef.current;
+      subscriptionErrorRef.current = null;
+      setError((current) => (current === subscriptionError ? null : current));
+    },
+    (err) => {
+      subscriptionErrorRef.current = err.message;
+      setError(err.message);
+      setLoading(false);
+    }
+  );
+
   /**
    * Create a new habit
    */
@@ -75,20 +227,68 @@ export function HabitsProvider({ children }: HabitsProviderProps) {
       throw new Error('You must be logged in to create a habit');
     }
 
-    try {
-      setError(null);
-      const habit = await habitService.createHabit(user.uid, input);
+    const validationError =
+      validateHabitInput(input) ??
+      (input.followsHabitId
+        ? validateStack(activeHabits, undefined, input.followsHabitId)
+        : null);
+    if (validationError) {
+      throw new Error(validationError);
+    }
 
-      // optimistic update to the UI by adding the new habit to the list
-      setHabits((prev) => [habit, ...prev]);
+    setError(null);
 
-      return habit;
-    } catch (err: unknown) {
-      const message =
-        err instanceof Error ? err.message : 'Failed to create habit';
-      setError(message);
-      throw new Error(message);
+    // The ID is generated on the device so the habit can be created offline
+    const habit = buildNewHabit(
+      repository.generateHabitId(user.uid),
+      user.uid,
+      input
+    );
+
+    // optimistic update to the UI by adding the new habit to the list
+    setHabits((prev) => [habit, ...prev]);
+    enqueue({ type: 'createHabit', habitId: habit.id, input });
+
+    return habit;
+  };
+
+  /**
+   * Create several habits at once, e.g. a template pack
+   * @description The habits are listed above existing ones in the order given,
+   * and saved together in a single batched write.
+   */
+  const createHabits = async (inputs: HabitInput[]): Promise<Habit[]> => {
+    if (!user) {
+      throw new Error('You must be logged in to create a habit');
     }
+
+    const validationError = inputs.map(validateHabitInput).find(Boolean);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+    if (inputs.length === 0) return [];
+
+    setError(null);
+
+    const top = Math.min(0, ...habits.map(getSortOrder));
+    const created = inputs.map((input, index) => {
+      const ordered: HabitInput = {
+        ...input,
+        sortOrder: top - (inputs.length - index) * SORT_ORDER_STEP,
+      };
+      return {
+        habitId: repository.generateHabitId(user.uid),
+        input: ordered,
+      };
+    });
+    const newHabits = created.map(({ habitId, input }) =>
+      buildNewHabit(habitId, user.uid, input)
+    );
+
+    setHabits((prev) => sortHabitsByOrder([...newHabits, ...prev]));
+    enqueue({ type: 'createHabits', habits: created });
+
+    return newHabits;
   };
 
   /**
@@ -102,94 +302,493 @@ export function HabitsProvider({ children }: HabitsProviderProps) {
       throw new Error('You must be logged in to update habits');
     }
 
-    try {
-      setError(null);
+    const habit = habits.find((h) => h.id === id);
+    const validationError =
+      habit &&
+      (validateHabitUpdates(habit, updates) ??
+        (updates.followsHabitId
+          ? validateStack(activeHabits, id, updates.followsHabitId)
+          : null));
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    setError(null);
+
+    // Optimistic update - update local state immediately
+    setHabits((prev) =>
+      prev.map((habit) =>
+        habit.id === id ? applyHabitUpdates(habit, updates) : habit
+      )
+    );
+
+    enqueue({ type: 'updateHabit', habitId: id, updates });
+  };
+
+  /**
+   * Take a habit out of its routine, so the habit stacked after it moves up
+   * to take its place
+   */
+  const unstackHabit = (id: string) => {
+    const follower = getFollower(activeHabits, id);
+    if (!follower) return;
+
+    const updates: Partial<HabitInput> = {
+      followsHabitId:
+        habits.find((habit) => habit.id === id)?.followsHabitId ?? null,
+    };
+    setHabits((prev) =>
+      prev.map((habit) =>
+        habit.id === follower.id ? applyHabitUpdates(habit, updates) : habit
+      )
+    );
+    enqueue({ type: 'updateHabit', habitId: follower.id, updates });
+  };
+
+  /**
+   * Get the updates for a habit coming back to the daily list
+   * @description Another habit may have taken its place in a routine while it
+   * was away, in which case it comes back unstacked.
+   */
+  const getReturnUpdates = (habit: Habit): Partial<HabitInput> =>
+    habit.followsHabitId &&
+    validateStack(activeHabits, habit.id, habit.followsHabitId)
+      ? { followsHabitId: null }
+      : {};
+
+  /**
+   * Move a habit to the trash
+   * @description The habit keeps its history until it's purged. A habit
+   * stacked after it moves up to take its place in the routine.
+   */
+  const deleteHabit = async (id: string): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to delete a habit');
+    }
+
+    setError(null);
+
+    unstackHabit(id);
+
+    // Optimistic update - move to the trash immediately
+    const deletedAt = new Date().toISOString();
+    setHabits((prev) =>
+      prev.map((habit) =>
+        habit.id === id ? applyDeletedAt(habit, deletedAt) : habit
+      )
+    );
+
+    enqueue({ type: 'setDeleted', habitId: id, deletedAt });
+  };
+
+  /**
+   * Archive a habit, taking it off the daily list but keeping its history
+   * @description A habit stacked after it moves up to take its place in the
+   * routine.
+   */
+  const archiveHabit = async (id: string): Promise<void> => {
+    if (!activeHabits.some((habit) => habit.id === id)) {
+      throw new Error('Habit not found');
+    }
+
+    unstackHabit(id);
+    await updateHabit(id, { archivedAt: new Date().toISOString() });
+  };
+
+  /**
+   * Bring an archived habit back to the daily list
+   */
+  const unarchiveHabit = async (id: string): Promise<void> => {
+    const habit = archivedHabits.find((h) => h.id === id);
+    if (!habit) {
+      throw new Error('Habit not found in the archive');
+    }
+
+    await updateHabit(id, { archivedAt: null, ...getReturnUpdates(habit) });
+  };
+
+  /**
+   * Restore a habit from the trash, with all its history
+   */
+  const restoreHabit = async (id: string): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to restore a habit');
+    }
+
+    const habit = habits.find((h) => h.id === id);
+    if (!habit || !isTrashed(habit)) {
+      throw new Error('Habit not found in the trash');
+    }
+
+    setError(null);
+
+    const updates = getReturnUpdates(habit);
+    if (Object.keys(updates).length > 0) {
+      setHabits((prev) =>
+        prev.map((h) => (h.id === id ? applyHabitUpdates(h, updates) : h))
+      );
+      enqueue({ type: 'updateHabit', habitId: id, updates });
+    }
+
+    setHabits((prev) =>
+      prev.map((h) => (h.id === id ? applyDeletedAt(h, null) : h))
+    );
+
+    enqueue({ type: 'setDeleted', habitId: id, deletedAt: null });
+  };
+
+  /**
+   * Delete a habit and its history for good
+   */
+  const deleteHabitPermanently = async (id: string): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to delete a habit');
+    }
+
+    setError(null);
+
+    // Optimistic update - remove from local state immediately
+    setHabits((prev) => prev.filter((habit) => habit.id !== id));
+
+    enqueue({ type: 'deleteHabit', habitId: id });
+  };
+
+  /**
+   * Delete every habit in the trash for good
+   */
+  const emptyTrash = async (): Promise<void> => {
+    await Promise.all(
+      trashedHabits.map((habit) => deleteHabitPermanently(habit.id))
+    );
+  };
+
+  // Purge habits once they've been in the trash for the retention period
+  useEffect(() => {
+    if (!user || loading) return;
+
+    const expired = getHabitsToPurge(
+      habits,
+      today,
+      settings.trashRetentionDays,
+      dateKeyOptions
+    ).map((habit) => habit.id);
+    if (expired.length === 0) return;
+
+    setHabits((prev) => prev.filter((habit) => !expired.includes(habit.id)));
+    expired.forEach((habitId) => enqueue({ type: 'deleteHabit', habitId }));
+  }, [
+    user,
+    loading,
+    habits,
+    today,
+    settings.trashRetentionDays,
+    dateKeyOptions,
+    enqueue,
+  ]);
+
+  /**
+   * Move a habit in the manual order
+   * @description The move is made in the full manual order, so habits that
+   * aren't listed keep their positions. Only the moved habit's sortOrder is
+   * written, unless the order has to be renumbered.
+   * @param orderedIds The IDs of the habits as listed
+   * @param from The listed index the habit was moved from
+   * @param to The listed index it was dropped at
+   */
+  const moveHabit = async (
+    orderedIds: string[],
+    from: number,
+    to: number
+  ): Promise<void> => {
+    if (!orderedIds.every((id) => habits.some((habit) => habit.id === id))) {
+      throw new Error('Habit not found');
+    }
+
+    const updates = getListedMoveUpdates(habits, orderedIds, from, to);
+    await Promise.all(
+      updates.map(({ id, sortOrder }) => updateHabit(id, { sortOrder }))
+    );
+
+    // Keep the list in order until the server reports it back
+    setHabits((prev) => sortHabitsByOrder(prev));
+  };
+
+  /**
+   * Set a habit's status on a date: done, skipped with a reason, or none
+   */
+  const setDayStatus = async (
+    id: string,
+    date: string,
+    status: DayStatus
+  ): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to track a habit');
+    }
+
+    const habit = habits.find((h) => h.id === id);
+    if (!habit) {
+      throw new Error('Habit not found');
+    }
+
+    setError(null);
 
-      // Optimistic update - update local state immediately
+    // Checklist habits are done by checking every item
+    if (hasChecklist(habit) && status.type !== 'skipped') {
+      const checked =
+        status.type === 'done' ? habit.checklist.map((item) => item.id) : [];
       setHabits((prev) =>
-        prev.map((habit) =>
-          habit.id === id
-            ? { ...habit, ...updates, updatedAt: new Date() }
-            : habit
+        prev.map((h) => (h.id === id ? applyCheckedItems(h, date, checked) : h))
+      );
+      enqueue({ type: 'setChecklist', habitId: id, date, checked });
+      return;
+    }
+
+    // Quantitative habits are done once their target amount is logged
+    if (isQuantitative(habit) && status.type !== 'skipped') {
+      const amount = status.type === 'done' ? habit.target.value : 0;
+      setHabits((prev) =>
+        prev.map((h) =>
+          h.id === id ? applyLoggedProgress(h, date, amount) : h
         )
       );
+      enqueue({ type: 'setProgress', habitId: id, date, amount });
+      return;
+    }
 
-      await habitService.updateHabit(user.uid, id, updates);
-    } catch (err: unknown) {
-      const message =
-        err instanceof Error ? err.message : 'Failed to update habit';
-      setError(message);
+    // Optimistic update - apply the new status in local state immediately
+    setHabits((prev) =>
+      prev.map((h) => (h.id === id ? applyDayStatus(h, date, status) : h))
+    );
+
+    // Queue the resulting state rather than a toggle, so replays are safe
+    enqueue({ type: 'setDayStatus', habitId: id, date, status });
+  };
 
-      // Rollback on error - refresh from server
-      await refreshHabits();
+  /**
+   * Change the logged amount of a quantitative habit by one step
+   */
+  const adjustProgress = async (
+    id: string,
+    date: string,
+    direction: 1 | -1
+  ): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to track a habit');
+    }
 
-      throw new Error(message);
+    const habit = habits.find((h) => h.id === id);
+    if (!habit || !isQuantitative(habit)) {
+      throw new Error('This habit does not track progress');
     }
+
+    const current = habit.progress[date] ?? 0;
+    const amount = Math.max(
+      0,
+      current + direction * getTargetStep(habit.target)
+    );
+
+    setError(null);
+
+    // Optimistic update - apply the new amount in local state immediately
+    setHabits((prev) =>
+      prev.map((h) => (h.id === id ? applyLoggedProgress(h, date, amount) : h))
+    );
+
+    enqueue({ type: 'setProgress', habitId: id, date, amount });
   };
 
   /**
-   * Delete a habit
+   * Add one step of progress to a quantitative habit
    */
-  const deleteHabit = async (id: string): Promise<void> => {
+  const incrementProgress = (id: string, date: string): Promise<void> =>
+    adjustProgress(id, date, 1);
+
+  /**
+   * Remove one step of progress from a quantitative habit
+   */
+  const decrementProgress = (id: string, date: string): Promise<void> =>
+    adjustProgress(id, date, -1);
+
+  /**
+   * Check or uncheck one item of a habit's checklist
+   * @description The habit completes itself once enough items are checked.
+   */
+  const toggleChecklistItem = async (
+    id: string,
+    date: string,
+    itemId: string
+  ): Promise<void> => {
     if (!user) {
-      throw new Error('You must be logged in to delete a habit');
+      throw new Error('You must be logged in to track a habit');
     }
 
-    try {
-      setError(null);
+    const habit = habits.find((h) => h.id === id);
+    if (!habit || !habit.checklist.some((item) => item.id === itemId)) {
+      throw new Error('Checklist item not found');
+    }
 
-      // Optimistic update - remove from local state immediately
-      setHabits((prev) => prev.filter((habit) => habit.id !== id));
+    const checked = toggleItem(getCheckedItems(habit, date), itemId);
 
-      await habitService.deleteHabit(user.uid, id);
-    } catch (err: unknown) {
-      const message =
-        err instanceof Error ? err.message : 'Failed to delete habit';
-      setError(message);
+    setError(null);
+
+    setHabits((prev) =>
+      prev.map((h) => (h.id === id ? applyCheckedItems(h, date, checked) : h))
+    );
+
+    enqueue({ type: 'setChecklist', habitId: id, date, checked });
+  };
+
+  /**
+   * Set or clear the note and rating on a completed day
+   */
+  const setNote = async (
+    id: string,
+    date: string,
+    note: HabitNote | null
+  ): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to track a habit');
+    }
 
-      // Rollback on error - refresh from server
-      await refreshHabits();
+    const habit = habits.find((h) => h.id === id);
+    if (!habit) {
+      throw new Error('Habit not found');
+    }
+    if (!canAddNote(habit, date)) {
+      throw new Error('Check off the day before adding a note.');
+    }
 
-      throw new Error(message);
+    const normalized = normalizeNote(note);
+    const validationError = normalized && validateNote(normalized);
+    if (validationError) {
+      throw new Error(validationError);
     }
+
+    setError(null);
+
+    // Optimistic update - apply the note in local state immediately
+    setHabits((prev) =>
+      prev.map((h) => (h.id === id ? applyNote(h, date, normalized) : h))
+    );
+
+    enqueue({ type: 'setNote', habitId: id, date, note: normalized });
   };
 
   /**
-   * Toggle habit completion for today
+   * Log or remove a slip of a habit being broken
    */
-  const toggleCompletion = async (id: string, date: string): Promise<void> => {
+  const setSlip = async (
+    id: string,
+    slip: HabitSlip,
+    logged: boolean
+  ): Promise<void> => {
     if (!user) {
       throw new Error('You must be logged in to track a habit');
     }
 
-    try {
-      setError(null);
+    const habit = habits.find((h) => h.id === id);
+    if (!habit || !isBreakingHabit(habit)) {
+      throw new Error('This habit does not track slips');
+    }
 
-      // Optimistic update - toggle completion in local state immediately
-      setHabits((prev) =>
-        prev.map((habit) => {
-          if (habit.id !== id) return habit;
+    setError(null);
 
-          const isCompleted = habit.completedDates.includes(date);
-          const newCompletedDates = isCompleted
-            ? habit.completedDates.filter((d) => d !== date)
-            : [...habit.completedDates, date];
+    // Optimistic update - apply the slip in local state immediately
+    setHabits((prev) =>
+      prev.map((h) => (h.id === id ? applySlip(h, slip, logged) : h))
+    );
 
-          return { ...habit, completedDates: newCompletedDates };
-        })
-      );
-    } catch (err: unknown) {
-      const message =
-        err instanceof Error
-          ? err.message
-          : 'Failed to update habit completion';
-      setError(message);
+    enqueue({ type: 'setSlip', habitId: id, slip, logged });
+  };
+
+  /**
+   * Log a slip of a habit being broken on a date
+   */
+  const logSlip = (id: string, date: string, note?: string): Promise<void> =>
+    setSlip(id, createSlip(date, note), true);
 
-      // Rollback on error - refresh from server
-      await refreshHabits();
+  /**
+   * Remove a logged slip, e.g. one logged by mistake
+   */
+  const removeSlip = async (id: string, slipId: string): Promise<void> => {
+    const slip = habits
+      .find((h) => h.id === id)
+      ?.slips.find((s) => s.id === slipId);
+    if (!slip) {
+      throw new Error('Slip not found');
+    }
+
+    await setSlip(id, slip, false);
+  };
 
-      throw new Error(message);
+  /**
+   * Pause habits for a date range, e.g. for a vacation
+   */
+  const pauseHabits = async (
+    ids: string[],
+    pause: HabitPause
+  ): Promise<void> => {
+    const validationError = validatePause(pause);
+    if (validationError) {
+      throw new Error(validationError);
     }
+
+    await Promise.all(
+      habits
+        .filter((habit) => ids.includes(habit.id))
+        .map((habit) =>
+          updateHabit(habit.id, { pauses: addPause(habit.pauses, pause) })
+        )
+    );
+  };
+
+  /**
+   * Pause a single habit for a date range
+   */
+  const pauseHabit = (id: string, pause: HabitPause): Promise<void> =>
+    pauseHabits([id], pause);
+
+  /**
+   * Pause every habit for a date range
+   */
+  const pauseAllHabits = (pause: HabitPause): Promise<void> =>
+    pauseHabits(
+      activeHabits.map((habit) => habit.id),
+      pause
+    );
+
+  /**
+   * End a habit's current pause, so it's due again from today
+   */
+  const resumeHabit = async (id: string): Promise<void> => {
+    const habit = habits.find((h) => h.id === id);
+    if (!habit) {
+      throw new Error('Habit not found');
+    }
+
+    await updateHabit(id, { pauses: endPause(habit.pauses, today) });
+  };
+
+  /**
+   * Spend a streak freeze to cover the missed period that broke a streak
+   */
+  const freezeStreak = async (id: string): Promise<void> => {
+    const habit = habits.find((h) => h.id === id);
+    if (!habit) {
+      throw new Error('Habit not found');
+    }
+
+    const period = getFreezablePeriod(habit, today);
+    if (!period) {
+      throw new Error('There is no missed day to freeze.');
+    }
+    if (getAvailableStreakFreezes(habit, today) < 1) {
+      throw new Error(
+        'No streak freezes left. Keep your streak going to earn more.'
+      );
+    }
+
+    await updateHabit(id, { frozenDates: [...habit.frozenDates, period] });
   };
 
   /**
@@ -200,13 +799,37 @@ export function HabitsProvider({ children }: HabitsProviderProps) {
   };
 
   const value: HabitsContextType = {
-    habits,
+    habits: activeHabits,
+    archivedHabits,
+    trashedHabits,
+    today,
+    streaks,
     loading,
     error,
+    pendingSyncCount: pendingOperations.length,
+    subscriptionStatus: subscription.status,
+    fromCache: subscription.fromCache,
     createHabit,
+    createHabits,
     updateHabit,
     deleteHabit,
-    toggleCompletion,
+    archiveHabit,
+    unarchiveHabit,
+    restoreHabit,
+    deleteHabitPermanently,
+    emptyTrash,
+    moveHabit,
+    setDayStatus,
+    incrementProgress,
+    decrementProgress,
+    toggleChecklistItem,
+    setNote,
+    logSlip,
+    removeSlip,
+    pauseHabit,
+    pauseAllHabits,
+    resumeHabit,
+    freezeStreak,
     refreshHabits,
     clearError,
   };
@@ -0,0 +1,98 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { Habit, HabitRepository, SubscriptionStatus } from '../types';
+
+// Wait before resubscribing after a failure, doubling each time up to the max
+const RETRY_BASE_DELAY_MS = 2 * 1000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Get how long to wait before resubscribing
+ * @param attempt How many times in a row the subscription has failed before
+ * @returns The delay in milliseconds
+ */
+const getRetryDelay = (attempt: number): number =>
+  Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+/**
+ * Habits subscription hook
+ * @description Keeps a real-time subscription to a user's habits open. A
+ * failed subscription is reported and retried with exponential backoff, or
+ * straight away when the app returns to the foreground.
+ * @param repository The habit repository to subscribe to
+ * @param userId The signed in user's ID, or null when signed out
+ * @param onUpdate Called with the user's habits after every change
+ * @param onError Called when the subscription fails
+ * @returns The subscription's status, whether the habits came from the
+ * offline cache, and a function to resubscribe right away
+ */
+export function useHabitsSubscription(
+  repository: HabitRepository,
+  userId: string | null,
+  onUpdate: (habits: Habit[]) => void,
+  onError: (error: Error) => void
+) {
+  const [status, setStatus] = useState<SubscriptionStatus>('connecting');
+  const [fromCache, setFromCache] = useState(false);
+  // Bumped to start a new subscription
+  const [generation, setGeneration] = useState(0);
+  const attemptRef = useRef(0);
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  // A new user starts without any failed attempts
+  useEffect(() => {
+    attemptRef.current = 0;
+    setFromCache(false);
+  }, [repository, userId]);
+
+  useEffect(() => {
+    setStatus('connecting');
+    if (!userId) return;
+
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = repository.subscribeToHabits(
+      userId,
+      (habits, metadata) => {
+        attemptRef.current = 0;
+        setFromCache(metadata.fromCache);
+        setStatus(metadata.fromCache ? 'offline' : 'live');
+        onUpdateRef.current(habits);
+      },
+      (error) => {
+        setStatus('errored');
+        onErrorRef.current(error);
+
+        const delay = getRetryDelay(attemptRef.current);
+        attemptRef.current += 1;
+        retryTimer = setTimeout(() => setGeneration((prev) => prev + 1), delay);
+      }
+    );
+
+    return () => {
+      unsubscribe();
+      clearTimeout(retryTimer);
+    };
+  }, [repository, userId, generation]);
+
+  /**
+   * Resubscribe now instead of waiting for the next retry
+   */
+  const retry = useCallback(() => {
+    attemptRef.current = 0;
+    setGeneration((prev) => prev + 1);
+  }, []);
+
+  // Retry when the app comes back to the foreground after a failure
+  useEffect(() => {
+    if (status !== 'errored') return;
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') retry();
+    });
+    return () => subscription.remove();
+  }, [status, retry]);
+
+  return { status, fromCache, retry };
+}
@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import {
+  localHabitRepository,
+  uploadLocalHabits,
+} from '../services/localHabitRepository';
+import { firestoreHabitRepository } from '../services/habitService';
+import { LOCAL_USER } from '../constants/localMode';
+import { User } from '../types';
+
+/**
+ * Local habits upload hook
+ * @description Finds habits left in the local profile after signing in to an
+ * account, and offers to upload them into the account.
+ * @param user The current user
+ * @returns How many local habits are waiting, and a function to upload them
+ */
+export function useLocalHabitsUpload(user: User | null) {
+  const [localHabitCount, setLocalHabitCount] = useState(0);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const accountId = user && !user.isLocal ? user.uid : null;
+
+  // Watch the local profile while signed in to an account
+  useEffect(() => {
+    setLocalHabitCount(0);
+    if (!accountId) return;
+
+    return localHabitRepository.subscribeToHabits(LOCAL_USER.uid, (habits) =>
+      setLocalHabitCount(habits.length)
+    );
+  }, [accountId]);
+
+  /**
+   * Upload the local habits into the signed in account
+   */
+  const upload = async (): Promise<void> => {
+    if (!accountId) return;
+
+    try {
+      setError(null);
+      setUploading(true);
+      await uploadLocalHabits(firestoreHabitRepository, accountId);
+    } catch (err: unknown) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to upload local habits'
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return { localHabitCount, uploading, error, upload };
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect, createContext, useContext } from 'react';
+import * as settingsService from '../services/settingsService';
+import { AppSettings, SettingsContextType } from '../types';
+
+// Context for the settings state and actions
+const SettingsContext = createContext<SettingsContextType | undefined>(
+  undefined
+);
+
+/**
+ * Settings Provider Props
+ * @description Interface for the SettingsProviderProps.
+ */
+interface SettingsProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Settings Provider Component
+ * Wrap app with this to provide device preferences
+ */
+export function SettingsProvider({ children }: SettingsProviderProps) {
+  const [settings, setSettings] = useState<AppSettings>(
+    settingsService.DEFAULT_SETTINGS
+  );
+  const [loading, setLoading] = useState(true);
+
+  // Load saved settings once on mount
+  useEffect(() => {
+    settingsService.loadSettings().then((saved) => {
+      setSettings(saved);
+      setLoading(false);
+    });
+  }, []);
+
+  /**
+   * Update and persist settings
+   */
+  const updateSettings = async (
+    updates: Partial<AppSettings>
+  ): Promise<void> => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    await settingsService.saveSettings(next);
+  };
+
+  const value: SettingsContextType = {
+    settings,
+    loading,
+    updateSettings,
+  };
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to use settings context
+ * Must be used within SettingsProvider
+ */
+export function useSettings(): SettingsContextType {
+  const context = useContext(SettingsContext);
+
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+
+  return context;
+}
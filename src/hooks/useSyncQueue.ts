@@ -0,0 +1,139 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppState } from 'react-native';
+import * as syncQueue from '../services/syncQueue';
+import { HabitRepository, PendingOperation, SyncOperation } from '../types';
+
+// How often to retry while changes are waiting to be synced
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Sync queue hook
+ * @description Owns a user's outbox of pending habit changes. Operations are
+ * persisted before they're sent and replayed in order whenever the queue
+ * changes, the app returns to the foreground, or the retry timer fires.
+ * @param repository The habit repository to sync to
+ * @param userId The signed in user's ID, or null when signed out
+ * @param onFailure Called when the server rejects an operation
+ * @returns The pending operations, a function to read them without waiting
+ * for a render, and a function to queue a new one
+ */
+export function useSyncQueue(
+  repository: HabitRepository,
+  userId: string | null,
+  onFailure: (operation: PendingOperation, error: Error) => void
+) {
+  const [queue, setQueue] = useState<PendingOperation[]>([]);
+  const queueRef = useRef<PendingOperation[]>([]);
+  const flushingRef = useRef(false);
+  // Bumped when the user changes, so a flush started for the previous user
+  // stops instead of replaying the new user's queue
+  const sessionRef = useRef(0);
+  const onFailureRef = useRef(onFailure);
+  onFailureRef.current = onFailure;
+
+  /**
+   * Replace the queue in memory and in storage
+   */
+  const updateQueue = useCallback(
+    (next: PendingOperation[]) => {
+      queueRef.current = next;
+      setQueue(next);
+      if (userId) {
+        syncQueue.saveQueue(userId, next);
+      }
+    },
+    [userId]
+  );
+
+  /**
+   * Replay queued operations in order until the queue is empty or we're offline
+   */
+  const flush = useCallback(async (): Promise<void> => {
+    if (!userId || flushingRef.current) return;
+    flushingRef.current = true;
+    const session = sessionRef.current;
+
+    try {
+      while (sessionRef.current === session && queueRef.current.length > 0) {
+        const operation = queueRef.current[0];
+        const result = await syncQueue.replayOperation(
+          repository,
+          userId,
+          operation
+        );
+
+        // The queue belongs to another user if it changed while in flight
+        if (sessionRef.current !== session || result.status === 'offline') {
+          break;
+        }
+
+        // Only drop the operation if it wasn't merged with a newer change
+        // while it was in flight, otherwise replay the merged version
+        updateQueue(queueRef.current.filter((op) => op !== operation));
+
+        if (result.status === 'failed') {
+          onFailureRef.current(operation, result.error);
+        }
+      }
+    } finally {
+      if (sessionRef.current === session) {
+        flushingRef.current = false;
+      }
+    }
+  }, [repository, userId, updateQueue]);
+
+  // Load the user's saved queue and start syncing it
+  useEffect(() => {
+    sessionRef.current += 1;
+    flushingRef.current = false;
+    queueRef.current = [];
+    setQueue([]);
+    if (!userId) return;
+
+    let cancelled = false;
+    syncQueue.loadQueue(userId).then((saved) => {
+      if (cancelled) return;
+      // Keep anything queued while we were loading
+      updateQueue([...saved, ...queueRef.current]);
+      flush();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, updateQueue, flush]);
+
+  // Retry when the app comes back to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') flush();
+    });
+    return () => subscription.remove();
+  }, [flush]);
+
+  // Retry periodically while there's something to sync
+  useEffect(() => {
+    if (queue.length === 0) return;
+    const interval = setInterval(flush, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [queue.length, flush]);
+
+  /**
+   * Get the operations that haven't been synced yet, including ones queued
+   * since the last render
+   */
+  const getPendingOperations = useCallback(() => queueRef.current, []);
+
+  /**
+   * Queue an operation and try to send it right away
+   */
+  const enqueue = useCallback(
+    (operation: SyncOperation) => {
+      updateQueue(syncQueue.enqueueOperation(queueRef.current, operation));
+      flush();
+    },
+    [updateQueue, flush]
+  );
+
+  return { pendingOperations: queue, getPendingOperations, enqueue };
+}
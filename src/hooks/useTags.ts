@@ -0,0 +1,122 @@
+import { useHabits } from './useHabits';
+import { useSettings } from './useSettings';
+import {
+  getAllTags,
+  hasTag,
+  isSameTag,
+  normalizeTag,
+  removeTagFrom,
+  renameTagIn,
+  uniqueTags,
+  validateTag,
+} from '../utils/tags';
+
+/**
+ * Tags hook
+ * @description The user's tags, and actions to manage them. Tags are stored
+ * on each habit, and tags created in the tag manager are also kept in
+ * settings so they can be picked before any habit uses them. Renaming or
+ * deleting a tag updates the saved HomeScreen filter and every habit, archived
+ * and trashed ones included so the old tag can't come back with them.
+ * Must be used within HabitsProvider and SettingsProvider.
+ * @returns The tags, the selected filter, and actions to change them
+ */
+export function useTags() {
+  const { habits, archivedHabits, trashedHabits, updateHabit } = useHabits();
+  const { settings, updateSettings } = useSettings();
+  const tags = getAllTags(habits, settings.tags);
+  // Ignore saved filters for tags that no longer exist
+  const filter = settings.tagFilter.filter((tag) =>
+    tags.some((existing) => isSameTag(existing, tag))
+  );
+
+  /**
+   * Count the habits with a tag
+   */
+  const countHabits = (tag: string): number =>
+    habits.filter((habit) => hasTag(habit, tag)).length;
+
+  /**
+   * Create a tag, so it can be picked for habits
+   */
+  const addTag = async (name: string): Promise<void> => {
+    const tag = normalizeTag(name);
+    const validationError = validateTag(tag);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+    if (tags.some((existing) => isSameTag(existing, tag))) {
+      throw new Error(`You already have a tag called "${tag}".`);
+    }
+
+    await updateSettings({ tags: uniqueTags([...settings.tags, tag]) });
+  };
+
+  /**
+   * Rename a tag everywhere, merging it into another tag with that name
+   */
+  const renameTag = async (from: string, name: string): Promise<void> => {
+    const to = normalizeTag(name);
+    const validationError = validateTag(to);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    await Promise.all(
+      [...habits, ...archivedHabits, ...trashedHabits]
+        .filter((habit) => hasTag(habit, from))
+        .map((habit) =>
+          updateHabit(habit.id, { tags: renameTagIn(habit.tags, from, to) })
+        )
+    );
+    await updateSettings({
+      tags: renameTagIn(settings.tags, from, to),
+      tagFilter: renameTagIn(settings.tagFilter, from, to),
+    });
+  };
+
+  /**
+   * Delete a tag, removing it from every habit
+   */
+  const deleteTag = async (tag: string): Promise<void> => {
+    await Promise.all(
+      [...habits, ...archivedHabits, ...trashedHabits]
+        .filter((habit) => hasTag(habit, tag))
+        .map((habit) =>
+          updateHabit(habit.id, { tags: removeTagFrom(habit.tags, tag) })
+        )
+    );
+    await updateSettings({
+      tags: removeTagFrom(settings.tags, tag),
+      tagFilter: removeTagFrom(settings.tagFilter, tag),
+    });
+  };
+
+  /**
+   * Show or hide habits with a tag on HomeScreen. An empty filter shows all
+   */
+  const toggleFilter = (tag: string): Promise<void> =>
+    updateSettings({
+      tagFilter: filter.some((t) => isSameTag(t, tag))
+        ? removeTagFrom(filter, tag)
+        : [...filter, tag],
+    });
+
+  /**
+   * Show every habit again
+   */
+  const clearFilter = (): Promise<void> => updateSettings({ tagFilter: [] });
+
+  return {
+    tags,
+    filter,
+    groupByTag: settings.groupByTag,
+    countHabits,
+    addTag,
+    renameTag,
+    deleteTag,
+    toggleFilter,
+    clearFilter,
+    setGroupByTag: (groupByTag: boolean) => updateSettings({ groupByTag }),
+  };
+}
@@ -11,6 +11,16 @@ import SignUpScreen from '../screens/SignUpScreen';
 
 // App Screens
 import HomeScreen from '../screens/HomeScreen';
+import SettingsScreen from '../screens/SettingsScreen';
+import HabitDetailScreen from '../screens/HabitDetailScreen';
+import AddHabitScreen from '../screens/AddHabitScreen';
+import EditHabitScreen from '../screens/EditHabitScreen';
+import JournalScreen from '../screens/JournalScreen';
+import TagsScreen from '../screens/TagsScreen';
+import TemplatesScreen from '../screens/TemplatesScreen';
+import RoutineScreen from '../screens/RoutineScreen';
+import TrashScreen from '../screens/TrashScreen';
+import ArchiveScreen from '../screens/ArchiveScreen';
 
 import { AuthStackParamList, AppStackParamList } from '../types';
 
@@ -43,6 +53,56 @@ const AppNavigator = () => {
         component={HomeScreen}
         options={{ headerTitle: 'Habit Tracker Pro' }}
       />
+      <AppStack.Screen
+        name="HabitDetail"
+        component={HabitDetailScreen}
+        options={{ headerTitle: 'Habit' }}
+      />
+      <AppStack.Screen
+        name="AddHabit"
+        component={AddHabitScreen}
+        options={{ headerTitle: 'New Habit' }}
+      />
+      <AppStack.Screen
+        name="EditHabit"
+        component={EditHabitScreen}
+        options={{ headerTitle: 'Edit Habit' }}
+      />
+      <AppStack.Screen
+        name="Journal"
+        component={JournalScreen}
+        options={{ headerTitle: 'Journal' }}
+      />
+      <AppStack.Screen
+        name="Tags"
+        component={TagsScreen}
+        options={{ headerTitle: 'Tags' }}
+      />
+      <AppStack.Screen
+        name="Templates"
+        component={TemplatesScreen}
+        options={{ headerTitle: 'Templates' }}
+      />
+      <AppStack.Screen
+        name="Routine"
+        component={RoutineScreen}
+        options={{ headerTitle: 'Routine' }}
+      />
+      <AppStack.Screen
+        name="Trash"
+        component={TrashScreen}
+        options={{ headerTitle: 'Trash' }}
+      />
+      <AppStack.Screen
+        name="Archive"
+        component={ArchiveScreen}
+        options={{ headerTitle: 'Archive' }}
+      />
+      <AppStack.Screen
+        name="Settings"
+        component={SettingsScreen}
+        options={{ headerTitle: 'Settings' }}
+      />
     </AppStack.Navigator>
   );
 };
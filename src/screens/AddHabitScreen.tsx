@@ -0,0 +1,53 @@
+import React, { useLayoutEffect } from 'react';
+import { IconButton } from 'react-native-paper';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useHabits } from '../hooks/useHabits';
+import { useTags } from '../hooks/useTags';
+import { AppStackParamList, HabitInput } from '../types';
+import HabitForm from '../components/HabitForm';
+import { trackEvent } from '../utils/analytics';
+import { getHabitSchedule } from '../utils/schedule';
+
+type AddHabitScreenNavigationProp = StackNavigationProp<
+  AppStackParamList,
+  'AddHabit'
+>;
+
+interface AddHabitScreenProps {
+  navigation: AddHabitScreenNavigationProp;
+}
+
+const AddHabitScreen = ({ navigation }: AddHabitScreenProps) => {
+  const { habits, today, createHabit } = useHabits();
+  const { tags } = useTags();
+
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <IconButton
+          icon="view-grid-plus-outline"
+          onPress={() => navigation.navigate('Templates')}
+          accessibilityLabel="Browse templates"
+        />
+      ),
+    });
+  }, [navigation]);
+
+  const handleCreate = async (input: HabitInput) => {
+    await createHabit(input);
+    trackEvent('habit_created', { schedule: getHabitSchedule(input).type });
+    navigation.goBack();
+  };
+
+  return (
+    <HabitForm
+      habits={habits}
+      availableTags={tags}
+      today={today}
+      submitLabel="Create Habit"
+      onSubmit={handleCreate}
+    />
+  );
+};
+
+export default AddHabitScreen;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Text,
+  Card,
+  Icon,
+  Button,
+  Divider,
+  HelperText,
+  TouchableRipple,
+} from 'react-native-paper';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useHabits } from '../hooks/useHabits';
+import { useSettings } from '../hooks/useSettings';
+import { AppStackParamList, Habit } from '../types';
+import { colors } from '../constants/colors';
+import { calculateHabitStats } from '../utils/stats';
+import { getStatsEndKey } from '../utils/archive';
+
+type ArchiveScreenNavigationProp = StackNavigationProp<
+  AppStackParamList,
+  'Archive'
+>;
+
+interface ArchiveScreenProps {
+  navigation: ArchiveScreenNavigationProp;
+}
+
+/**
+ * Archive Screen
+ * Lists archived habits, most recently archived first, with their lifetime
+ * stats. Archived habits aren't due and don't count towards today's progress
+ * until they're unarchived.
+ */
+const ArchiveScreen = ({ navigation }: ArchiveScreenProps) => {
+  const { archivedHabits, today, unarchiveHabit } = useHabits();
+  const { settings } = useSettings();
+  const [localError, setLocalError] = useState('');
+
+  const handleUnarchive = async (habit: Habit) => {
+    try {
+      setLocalError('');
+      await unarchiveHabit(habit.id);
+    } catch (err: unknown) {
+      setLocalError(
+        err instanceof Error ? err.message : 'Failed to unarchive habit'
+      );
+    }
+  };
+
+  /**
+   * Describe a habit's lifetime stats, e.g. "42 completions · 80% completion
+   * rate"
+   */
+  const describeStats = (habit: Habit): string => {
+    const options = {
+      timeZone: settings.timeZone,
+      rolloverHour: settings.dayRolloverHour,
+    };
+    const stats = calculateHabitStats(
+      habit,
+      getStatsEndKey(habit, today, options),
+      options
+    );
+    return `${stats.totalCompletions} completion${
+      stats.totalCompletions === 1 ? '' : 's'
+    } · ${Math.round(stats.completionRate * 100)}% completion rate`;
+  };
+
+  if (archivedHabits.length === 0) {
+    return (
+      <View style={styles.emptyState}>
+        <Icon source="archive-outline" size={48} color={colors.incomplete} />
+        <Text variant="titleMedium" style={styles.emptyTitle}>
+          Nothing archived yet
+        </Text>
+        <Text variant="bodySmall" style={styles.muted}>
+          Archive a habit from its details to keep its history without it being
+          due.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <Text variant="bodyMedium" style={styles.muted}>
+        Archived habits keep their history and stats. Unarchive one to bring it
+        back to your daily list.
+      </Text>
+      {localError ? (
+        <HelperText type="error" visible={true}>
+          {localError}
+        </HelperText>
+      ) : null}
+
+      <Card style={styles.card} mode="outlined">
+        <Card.Content>
+          {archivedHabits.map((habit, index) => (
+            <View key={habit.id}>
+              {index > 0 ? <Divider /> : null}
+              <TouchableRipple
+                onPress={() =>
+                  navigation.navigate('HabitDetail', { habitId: habit.id })
+                }
+              >
+                <View style={styles.habitRow}>
+                  <Icon
+                    source={habit.icon ?? 'star'}
+                    size={22}
+                    color={habit.color ?? colors.incomplete}
+                  />
+                  <View style={styles.habitText}>
+                    <Text variant="bodyLarge">{habit.title}</Text>
+                    <Text variant="bodySmall" style={styles.muted}>
+                      {describeStats(habit)}
+                    </Text>
+                  </View>
+                  <Button compact onPress={() => handleUnarchive(habit)}>
+                    Unarchive
+                  </Button>
+                </View>
+              </TouchableRipple>
+            </View>
+          ))}
+        </Card.Content>
+      </Card>
+    </ScrollView>
+  );
+};
+
+export default ArchiveScreen;
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: colors.white,
+  },
+  habitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    minHeight: 56,
+  },
+  habitText: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    gap: 8,
+  },
+  emptyTitle: {
+    marginTop: 8,
+  },
+});
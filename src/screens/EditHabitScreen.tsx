@@ -0,0 +1,62 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { useHabits } from '../hooks/useHabits';
+import { useTags } from '../hooks/useTags';
+import { AppStackParamList, HabitInput } from '../types';
+import HabitForm from '../components/HabitForm';
+import { toHabitInput } from '../utils/habits';
+
+type EditHabitScreenNavigationProp = StackNavigationProp<
+  AppStackParamList,
+  'EditHabit'
+>;
+
+interface EditHabitScreenProps {
+  navigation: EditHabitScreenNavigationProp;
+  route: RouteProp<AppStackParamList, 'EditHabit'>;
+}
+
+const EditHabitScreen = ({ navigation, route }: EditHabitScreenProps) => {
+  const { habits, today, updateHabit } = useHabits();
+  const { tags } = useTags();
+  const habit = habits.find((h) => h.id === route.params.habitId);
+
+  if (!habit) {
+    return (
+      <View style={styles.notFound}>
+        <Text variant="bodyLarge">This habit no longer exists.</Text>
+      </View>
+    );
+  }
+
+  const handleSave = async (input: HabitInput) => {
+    await updateHabit(habit.id, input);
+    navigation.goBack();
+  };
+
+  return (
+    <HabitForm
+      initialValues={toHabitInput(habit)}
+      habits={habits}
+      availableTags={tags}
+      editingHabitId={habit.id}
+      today={today}
+      submitLabel="Save Changes"
+      onSubmit={handleSave}
+    />
+  );
+};
+
+export default EditHabitScreen;
+
+const styles = StyleSheet.create({
+  notFound: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+});
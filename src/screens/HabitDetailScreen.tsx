@@ -0,0 +1,593 @@
+import React, { useMemo, useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import {
+  Text,
+  Button,
+  Card,
+  Icon,
+  IconButton,
+  HelperText,
+  ProgressBar,
+} from 'react-native-paper';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { useHabits } from '../hooks/useHabits';
+import { useSettings } from '../hooks/useSettings';
+import { AppStackParamList } from '../types';
+import { colors } from '../constants/colors';
+import HabitCalendar from '../components/HabitCalendar';
+import PauseDialog from '../components/PauseDialog';
+import SkipDialog from '../components/SkipDialog';
+import SlipDialog from '../components/SlipDialog';
+import { getDayStatus } from '../utils/habits';
+import { calculateHabitStats } from '../utils/stats';
+import { formatSchedule, getStreakUnit } from '../utils/schedule';
+import { formatProgress, isQuantitative } from '../utils/progress';
+import { getActivePause } from '../utils/pauses';
+import { getSortedSlips, isBreakingHabit } from '../utils/slips';
+import { addDays } from '../utils/dateKeys';
+import { getStatsEndKey, isArchived } from '../utils/archive';
+import {
+  formatChallengeCountdown,
+  formatChallengeProgress,
+  getChallengeProgress,
+} from '../utils/challenges';
+import {
+  FREEZE_EARN_PERIODS,
+  getAvailableStreakFreezes,
+  getFreezablePeriod,
+} from '../utils/streaks';
+
+type HabitDetailScreenNavigationProp = StackNavigationProp<
+  AppStackParamList,
+  'HabitDetail'
+>;
+
+interface HabitDetailScreenProps {
+  navigation: HabitDetailScreenNavigationProp;
+  route: RouteProp<AppStackParamList, 'HabitDetail'>;
+}
+
+/**
+ * A single stat tile
+ */
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <View style={styles.stat}>
+    <Text variant="headlineSmall">{value}</Text>
+    <Text variant="bodySmall" style={styles.statLabel}>
+      {label}
+    </Text>
+  </View>
+);
+
+const HabitDetailScreen = ({ navigation, route }: HabitDetailScreenProps) => {
+  const {
+    habits,
+    archivedHabits,
+    today,
+    streaks,
+    error,
+    deleteHabit,
+    archiveHabit,
+    unarchiveHabit,
+    setDayStatus,
+    incrementProgress,
+    decrementProgress,
+    logSlip,
+    removeSlip,
+    pauseHabit,
+    resumeHabit,
+    freezeStreak,
+  } = useHabits();
+  const { settings } = useSettings();
+  const habit = [...habits, ...archivedHabits].find(
+    (h) => h.id === route.params.habitId
+  );
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [pauseDialogVisible, setPauseDialogVisible] = useState(false);
+  const [skipDate, setSkipDate] = useState<string | null>(null);
+  const [slipDate, setSlipDate] = useState<string | null>(null);
+
+  // An archived habit's stats are frozen on the day it was archived
+  const stats = useMemo(() => {
+    if (!habit) return null;
+    const options = {
+      timeZone: settings.timeZone,
+      rolloverHour: settings.dayRolloverHour,
+    };
+    return calculateHabitStats(
+      habit,
+      getStatsEndKey(habit, today, options),
+      options
+    );
+  }, [habit, today, settings.timeZone, settings.dayRolloverHour]);
+
+  if (!habit || !stats) {
+    return (
+      <View style={styles.notFound}>
+        <Text variant="bodyLarge">This habit no longer exists.</Text>
+      </View>
+    );
+  }
+
+  const streak = streaks[habit.id];
+  const unit = getStreakUnit(habit.schedule);
+  const activePause = getActivePause(habit.pauses, today);
+  const upcomingPauses = habit.pauses.filter(
+    (pause) => pause.startDate > today
+  );
+  const availableFreezes = getAvailableStreakFreezes(habit, today);
+  const freezablePeriod = getFreezablePeriod(habit, today);
+  const isBreaking = isBreakingHabit(habit);
+  const slips = getSortedSlips(habit);
+  const recentSlipCount = slips.filter(
+    (slip) => slip.date > addDays(today, -30) && slip.date <= today
+  ).length;
+  const challenge = getChallengeProgress(habit, today);
+  const countdown = challenge && formatChallengeCountdown(challenge);
+  const archived = isArchived(habit);
+
+  const handlePressDate = async (dateKey: string) => {
+    setSelectedDate(dateKey);
+    if (isBreaking) {
+      setSlipDate(dateKey);
+      return;
+    }
+    if (isQuantitative(habit)) return;
+
+    try {
+      const done = getDayStatus(habit, dateKey).type === 'done';
+      await setDayStatus(habit.id, dateKey, { type: done ? 'none' : 'done' });
+    } catch (err) {
+      console.error('Error toggling completion:', err);
+    }
+  };
+
+  const handleAdjustProgress = async (direction: 1 | -1) => {
+    try {
+      if (direction > 0) {
+        await incrementProgress(habit.id, selectedDate);
+      } else {
+        await decrementProgress(habit.id, selectedDate);
+      }
+    } catch (err) {
+      console.error('Error logging progress:', err);
+    }
+  };
+
+  const handleRemoveSlip = async (slipId: string) => {
+    try {
+      await removeSlip(habit.id, slipId);
+    } catch (err) {
+      console.error('Error removing slip:', err);
+    }
+  };
+
+  const handleResume = async () => {
+    try {
+      await resumeHabit(habit.id);
+    } catch (err) {
+      console.error('Error resuming habit:', err);
+    }
+  };
+
+  const handleFreeze = async () => {
+    try {
+      await freezeStreak(habit.id);
+    } catch (err) {
+      console.error('Error using streak freeze:', err);
+    }
+  };
+
+  const handleToggleArchived = async () => {
+    try {
+      if (archived) {
+        await unarchiveHabit(habit.id);
+      } else {
+        await archiveHabit(habit.id);
+        navigation.goBack();
+      }
+    } catch (err) {
+      console.error('Error archiving habit:', err);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Move to trash?',
+      `"${habit.title}" and its history can be restored from the Trash.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteHabit(habit.id);
+              navigation.goBack();
+            } catch (err) {
+              console.error('Error deleting habit:', err);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        {habit.icon ? (
+          <Icon
+            source={habit.icon}
+            size={36}
+            color={habit.color ?? colors.incomplete}
+          />
+        ) : null}
+        <View style={styles.headerText}>
+          <Text variant="headlineSmall">{habit.title}</Text>
+          <Text variant="bodySmall" style={styles.muted}>
+            {isBreaking ? 'Breaking' : formatSchedule(habit.schedule)} · Since{' '}
+            {new Date(habit.createdAt).toLocaleDateString()}
+            {archived
+              ? ` · Archived ${new Date(habit.archivedAt ?? 0).toLocaleDateString()}`
+              : ''}
+          </Text>
+        </View>
+      </View>
+      {habit.description ? (
+        <Text variant="bodyMedium" style={styles.description}>
+          {habit.description}
+        </Text>
+      ) : null}
+
+      {error ? (
+        <HelperText type="error" visible={true}>
+          {error}
+        </HelperText>
+      ) : null}
+
+      {isBreaking ? (
+        <View style={styles.stats}>
+          <Stat label="Days clean" value={`🌱 ${streak?.current ?? 0}`} />
+          <Stat label="Best clean run" value={`${streak?.longest ?? 0}`} />
+          <Stat
+            label="Slips in the last 30 days"
+            value={`${recentSlipCount}`}
+          />
+          <Stat label="Total slips" value={`${slips.length}`} />
+        </View>
+      ) : (
+        <View style={styles.stats}>
+          <Stat
+            label={`Current ${unit} streak`}
+            value={`🔥 ${streak?.current ?? 0}`}
+          />
+          <Stat label="Best streak" value={`${streak?.longest ?? 0}`} />
+          <Stat
+            label="Completion rate"
+            value={
+              stats.totalPeriods > 0
+                ? `${Math.round(stats.completionRate * 100)}%`
+                : '—'
+            }
+          />
+          <Stat label="Check-ins" value={`${stats.totalCompletions}`} />
+        </View>
+      )}
+
+      {challenge && habit.challenge ? (
+        <Card mode="outlined" style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium">
+              {challenge.status === 'succeeded'
+                ? '🏆 Challenge succeeded'
+                : challenge.status === 'failed'
+                  ? 'Challenge failed'
+                  : 'Challenge'}
+            </Text>
+            <Text variant="bodySmall" style={styles.muted}>
+              {habit.challenge.startDate} – {habit.challenge.endDate} · Goal{' '}
+              {challenge.target} {isBreaking ? 'clean ' : ''}days
+            </Text>
+            <ProgressBar
+              progress={Math.min(1, challenge.completions / challenge.target)}
+              color={
+                challenge.status === 'failed'
+                  ? colors.delete
+                  : challenge.remaining === 0
+                    ? colors.completed
+                    : colors.challenge
+              }
+              style={styles.challengeProgress}
+            />
+            <Text variant="bodyMedium" style={styles.pauseText}>
+              {formatChallengeProgress(challenge)}
+            </Text>
+            {countdown ? (
+              <Text variant="bodySmall" style={styles.muted}>
+                ⏳ {countdown}
+              </Text>
+            ) : null}
+          </Card.Content>
+        </Card>
+      ) : null}
+
+      <Card mode="outlined" style={styles.card}>
+        <Card.Content>
+          <HabitCalendar
+            habit={habit}
+            today={today}
+            selectedDate={isQuantitative(habit) ? selectedDate : undefined}
+            onPressDate={handlePressDate}
+            onLongPressDate={isBreaking ? undefined : setSkipDate}
+          />
+
+          {isBreaking ? (
+            <Text variant="bodySmall" style={styles.hint}>
+              Tap a day to log a slip on it.
+            </Text>
+          ) : isQuantitative(habit) ? (
+            <View style={styles.progressRow}>
+              <Text variant="bodyMedium" style={styles.progressLabel}>
+                {selectedDate}:{' '}
+                {formatProgress(
+                  habit.progress[selectedDate] ?? 0,
+                  habit.target
+                )}
+              </Text>
+              <IconButton
+                icon="minus-circle-outline"
+                disabled={(habit.progress[selectedDate] ?? 0) === 0}
+                onPress={() => handleAdjustProgress(-1)}
+              />
+              <IconButton
+                icon="plus-circle"
+                onPress={() => handleAdjustProgress(1)}
+              />
+            </View>
+          ) : (
+            <Text variant="bodySmall" style={styles.hint}>
+              Tap a day to check it off or undo it, long press to skip it.
+            </Text>
+          )}
+        </Card.Content>
+      </Card>
+
+      {isBreaking ? (
+        <Card mode="outlined" style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium">Slip history</Text>
+            {slips.length === 0 ? (
+              <Text variant="bodySmall" style={styles.pauseText}>
+                No slips yet. Keep it up!
+              </Text>
+            ) : null}
+            {slips.map((slip) => (
+              <View key={slip.id} style={styles.slipRow}>
+                <View style={styles.slipText}>
+                  <Text variant="bodyMedium">{slip.date}</Text>
+                  {slip.note ? (
+                    <Text variant="bodySmall" style={styles.muted}>
+                      {slip.note}
+                    </Text>
+                  ) : null}
+                </View>
+                <IconButton
+                  icon="close"
+                  size={18}
+                  onPress={() => handleRemoveSlip(slip.id)}
+                  accessibilityLabel={`Remove slip on ${slip.date}`}
+                />
+              </View>
+            ))}
+            <View style={styles.pauseActions}>
+              <Button
+                mode="outlined"
+                icon="alert-octagon-outline"
+                onPress={() => setSlipDate(today)}
+              >
+                Log a Slip
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+      ) : (
+        <Card mode="outlined" style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium">Time off</Text>
+            {activePause ? (
+              <Text variant="bodyMedium" style={styles.pauseText}>
+                ⏸️ Paused until {activePause.endDate}
+              </Text>
+            ) : null}
+            {upcomingPauses.map((pause) => (
+              <Text
+                key={pause.startDate}
+                variant="bodySmall"
+                style={styles.muted}
+              >
+                Pause planned {pause.startDate} – {pause.endDate}
+              </Text>
+            ))}
+            <Text variant="bodySmall" style={styles.pauseText}>
+              ❄️ {availableFreezes} streak freeze
+              {availableFreezes === 1 ? '' : 's'} available. Earn one for every{' '}
+              {FREEZE_EARN_PERIODS} {unit}s completed.
+            </Text>
+            <View style={styles.pauseActions}>
+              {activePause ? (
+                <Button mode="outlined" icon="play" onPress={handleResume}>
+                  Resume
+                </Button>
+              ) : (
+                <Button
+                  mode="outlined"
+                  icon="pause"
+                  onPress={() => setPauseDialogVisible(true)}
+                >
+                  Pause
+                </Button>
+              )}
+              {freezablePeriod && availableFreezes > 0 ? (
+                <Button mode="outlined" icon="snowflake" onPress={handleFreeze}>
+                  Freeze {freezablePeriod}
+                </Button>
+              ) : null}
+            </View>
+          </Card.Content>
+        </Card>
+      )}
+
+      {skipDate ? (
+        <SkipDialog
+          visible={true}
+          habitTitle={habit.title}
+          date={skipDate}
+          status={getDayStatus(habit, skipDate)}
+          onDismiss={() => setSkipDate(null)}
+          onConfirm={(status) => setDayStatus(habit.id, skipDate, status)}
+        />
+      ) : null}
+
+      {slipDate ? (
+        <SlipDialog
+          visible={true}
+          habitTitle={habit.title}
+          date={slipDate}
+          today={today}
+          onDismiss={() => setSlipDate(null)}
+          onConfirm={(date, note) => logSlip(habit.id, date, note)}
+        />
+      ) : null}
+
+      <PauseDialog
+        visible={pauseDialogVisible}
+        title="Pause habit"
+        description={`"${habit.title}" won't be due and its streak is kept while paused.`}
+        today={today}
+        onDismiss={() => setPauseDialogVisible(false)}
+        onConfirm={(pause) => pauseHabit(habit.id, pause)}
+      />
+
+      <View style={styles.actions}>
+        {archived ? null : (
+          <Button
+            mode="contained"
+            icon="pencil"
+            onPress={() =>
+              navigation.navigate('EditHabit', { habitId: habit.id })
+            }
+            style={styles.action}
+          >
+            Edit
+          </Button>
+        )}
+        <Button
+          mode={archived ? 'contained' : 'outlined'}
+          icon={
+            archived ? 'archive-arrow-up-outline' : 'archive-arrow-down-outline'
+          }
+          onPress={handleToggleArchived}
+          style={styles.action}
+        >
+          {archived ? 'Unarchive' : 'Archive'}
+        </Button>
+        <Button
+          mode="outlined"
+          icon="delete"
+          textColor={colors.delete}
+          onPress={handleDelete}
+          style={styles.action}
+        >
+          Delete
+        </Button>
+      </View>
+    </ScrollView>
+  );
+};
+
+export default HabitDetailScreen;
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 20,
+    backgroundColor: colors.white,
+    flexGrow: 1,
+  },
+  notFound: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+  description: {
+    marginTop: 12,
+  },
+  stats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: 16,
+  },
+  stat: {
+    width: '50%',
+    paddingVertical: 8,
+  },
+  statLabel: {
+    opacity: 0.6,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  progressLabel: {
+    flex: 1,
+  },
+  hint: {
+    marginTop: 8,
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+  pauseText: {
+    marginTop: 8,
+  },
+  challengeProgress: {
+    marginTop: 12,
+  },
+  slipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  slipText: {
+    flex: 1,
+  },
+  pauseActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  action: {
+    flex: 1,
+  },
+});
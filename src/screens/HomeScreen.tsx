@@ -1,35 +1,124 @@
-import React from 'react';
-import { View, StyleSheet, FlatList, RefreshControl } from 'react-native';
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  SectionList,
+  ScrollView,
+  RefreshControl,
+} from 'react-native';
 import {
   Text,
   Button,
-  Card,
-  IconButton,
+  Chip,
+  Menu,
   FAB,
+  IconButton,
   ActivityIndicator,
+  Snackbar,
 } from 'react-native-paper';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../hooks/useAuth';
 import { useHabits } from '../hooks/useHabits';
-import { Habit } from '../types';
+import { useLocalHabitsUpload } from '../hooks/useLocalHabitsUpload';
+import { useTags } from '../hooks/useTags';
+import { useSettings } from '../hooks/useSettings';
+import { AppStackParamList, Habit } from '../types';
 import { colors } from '../constants/colors';
+import HabitCard from '../components/HabitCard';
+import ReorderableList from '../components/ReorderableList';
+import PauseDialog from '../components/PauseDialog';
+import SkipDialog from '../components/SkipDialog';
+import SlipDialog from '../components/SlipDialog';
+import NoteDialog from '../components/NoteDialog';
+import { getDayStatus } from '../utils/habits';
+import { getTargetStep, isQuantitative } from '../utils/progress';
+import { getActivePause } from '../utils/pauses';
+import { isBreakingHabit } from '../utils/slips';
+import { filterHabitsByTags, groupHabitsByTag, isSameTag } from '../utils/tags';
+import { HABIT_SORT_MODES, sortHabits } from '../utils/ordering';
+import { isChallengeFinished } from '../utils/challenges';
+import { getRoutineSteps, getRoutines, groupRoutines } from '../utils/stacking';
+import {
+  getCheckedItems,
+  isChecklistComplete,
+  toggleItem,
+} from '../utils/checklist';
 
-export default function HomeScreen() {
-  const { user, signOut, loading: authLoading } = useAuth();
+type HomeScreenNavigationProp = StackNavigationProp<AppStackParamList, 'Home'>;
+
+interface HomeScreenProps {
+  navigation: HomeScreenNavigationProp;
+}
+
+export default function HomeScreen({ navigation }: HomeScreenProps) {
+  const { user, signOut, accountsAvailable, loading: authLoading } = useAuth();
   const {
     habits,
+    trashedHabits,
+    today,
+    streaks,
     loading,
     error,
+    pendingSyncCount,
+    subscriptionStatus,
     refreshHabits,
     deleteHabit,
-    toggleCompletion,
+    restoreHabit,
+    moveHabit,
+    setDayStatus,
+    incrementProgress,
+    decrementProgress,
+    toggleChecklistItem,
+    setNote,
+    logSlip,
+    pauseAllHabits,
   } = useHabits();
+  const [vacationDialogVisible, setVacationDialogVisible] = useState(false);
+  const [skipHabitId, setSkipHabitId] = useState<string | null>(null);
+  const skipHabit = habits.find((habit) => habit.id === skipHabitId);
+  const [slipHabitId, setSlipHabitId] = useState<string | null>(null);
+  const slipHabit = habits.find((habit) => habit.id === slipHabitId);
+  const [noteHabitId, setNoteHabitId] = useState<string | null>(null);
+  const noteHabit = habits.find((habit) => habit.id === noteHabitId);
+  // The habit just moved to the trash, offered back in the undo snackbar
+  const [undoHabitId, setUndoHabitId] = useState<string | null>(null);
+  const undoHabit = trashedHabits.find((habit) => habit.id === undoHabitId);
+  const localUpload = useLocalHabitsUpload(user);
+  const { tags, filter, groupByTag, toggleFilter, clearFilter, setGroupByTag } =
+    useTags();
+  const { settings, updateSettings } = useSettings();
+  const [sortMenuVisible, setSortMenuVisible] = useState(false);
+  const [showFinishedChallenges, setShowFinishedChallenges] = useState(false);
+  const filteredHabits = filterHabitsByTags(habits, filter);
+  // Finished challenges move out of the daily list into their own section
+  const finishedChallenges = filteredHabits.filter((habit) =>
+    isChallengeFinished(habit, today)
+  );
+  // Stacked habits are listed together, in routine order
+  const routines = getRoutines(habits);
+  const routineSteps = getRoutineSteps(routines, today);
+  const visibleHabits = groupRoutines(
+    sortHabits(
+      filteredHabits.filter((habit) => !isChallengeFinished(habit, today)),
+      settings.habitSort,
+      today,
+      streaks
+    ),
+    routines
+  );
+  const sections =
+    groupByTag && tags.length > 0
+      ? groupHabitsByTag(visibleHabits, filter.length > 0 ? filter : tags)
+      : null;
 
-  // get today's date in YYYY-MM-DD format
-  const today = new Date().toISOString().split('T')[0];
-
-  const handleToggleCompletion = async (habitId: string) => {
+  const handleToggleCompletion = async (habit: Habit) => {
     try {
-      await toggleCompletion(habitId, today);
+      const done = getDayStatus(habit, today).type === 'done';
+      await setDayStatus(habit.id, today, { type: done ? 'none' : 'done' });
+
+      // Offer to write a note about the completion
+      if (!done) setNoteHabitId(habit.id);
     } catch (error) {
       console.error('Error toggling completion:', error);
     }
@@ -38,63 +127,157 @@ export default function HomeScreen() {
   const handleDeleteHabit = async (habitId: string) => {
     try {
       await deleteHabit(habitId);
+      setUndoHabitId(habitId);
     } catch (error) {
       console.error('Error deleting habit:', error);
     }
   };
 
-  const renderHabitItem = ({ item }: { item: Habit }) => {
-    const isCompletedToday = item.completedDates.includes(today);
+  const handleUndoDelete = async (habitId: string) => {
+    try {
+      setUndoHabitId(null);
+      await restoreHabit(habitId);
+    } catch (error) {
+      console.error('Error restoring habit:', error);
+    }
+  };
 
-    return (
-      <Card style={styles.card} mode="elevated">
-        <Card.Content>
-          <View style={styles.habitHeader}>
-            <View style={styles.habitInfo}>
-              <Text variant="titleMedium">{item.title}</Text>
-              {item.description ? (
-                <Text variant="bodySmall" style={styles.description}>
-                  {item.description}
-                </Text>
-              ) : null}
-              <Text variant="bodySmall" style={styles.frequency}>
-                {item.frequency === 'daily' ? '📅 Daily' : '📆 Weekly'}
-              </Text>
-            </View>
-
-            <View style={styles.actions}>
-              <IconButton
-                icon={isCompletedToday ? 'check-circle' : 'circle-outline'}
-                size={32}
-                iconColor={
-                  isCompletedToday ? colors.completed : colors.incomplete
-                }
-                onPress={() => handleToggleCompletion(item.id)}
-              />
-              <IconButton
-                icon="delete"
-                size={20}
-                iconColor={colors.delete}
-                onPress={() => handleDeleteHabit(item.id)}
-              />
-            </View>
-          </View>
-        </Card.Content>
-      </Card>
-    );
+  const handleMoveHabit = async (from: number, to: number) => {
+    try {
+      await moveHabit(
+        visibleHabits.map((habit) => habit.id),
+        from,
+        to
+      );
+    } catch (error) {
+      console.error('Error moving habit:', error);
+    }
   };
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyState}>
-      <Text variant="headlineSmall" style={styles.emptyTitle}>
-        No habits yet
-      </Text>
-      <Text variant="bodyMedium" style={styles.emptyText}>
-        Tap the + button to create your first habit
-      </Text>
-    </View>
+  const handleAdjustProgress = async (habit: Habit, direction: 1 | -1) => {
+    try {
+      if (direction > 0) {
+        await incrementProgress(habit.id, today);
+
+        // Offer to write a note once the target is reached
+        const amount = habit.progress[today] ?? 0;
+        if (
+          isQuantitative(habit) &&
+          amount < habit.target.value &&
+          amount + getTargetStep(habit.target) >= habit.target.value
+        ) {
+          setNoteHabitId(habit.id);
+        }
+      } else {
+        await decrementProgress(habit.id, today);
+      }
+    } catch (error) {
+      console.error('Error logging progress:', error);
+    }
+  };
+
+  const handleToggleChecklistItem = async (habit: Habit, itemId: string) => {
+    try {
+      await toggleChecklistItem(habit.id, today, itemId);
+
+      // Offer to write a note once the last needed step is checked
+      const checked = toggleItem(getCheckedItems(habit, today), itemId);
+      if (
+        !habit.completedDates.includes(today) &&
+        isChecklistComplete(habit, checked)
+      ) {
+        setNoteHabitId(habit.id);
+      }
+    } catch (error) {
+      console.error('Error toggling checklist item:', error);
+    }
+  };
+
+  const renderHabit = (item: Habit) => (
+    <HabitCard
+      habit={item}
+      streak={streaks[item.id]}
+      today={today}
+      pausedUntil={getActivePause(item.pauses, today)?.endDate}
+      routineStep={routineSteps[item.id]}
+      onPress={() => navigation.navigate('HabitDetail', { habitId: item.id })}
+      onLongPress={() =>
+        isBreakingHabit(item)
+          ? setSlipHabitId(item.id)
+          : setSkipHabitId(item.id)
+      }
+      onToggle={() => handleToggleCompletion(item)}
+      onIncrement={() => handleAdjustProgress(item, 1)}
+      onDecrement={() => handleAdjustProgress(item, -1)}
+      onLogSlip={() => setSlipHabitId(item.id)}
+      onDelete={() => handleDeleteHabit(item.id)}
+      onStartRoutine={() =>
+        navigation.navigate('Routine', { routineId: item.id })
+      }
+      onToggleItem={(itemId) => handleToggleChecklistItem(item, itemId)}
+    />
   );
 
+  const renderEmptyState = () =>
+    finishedChallenges.length > 0 ? (
+      <View style={styles.emptyState}>
+        <Text variant="headlineSmall" style={styles.emptyTitle}>
+          All challenges finished
+        </Text>
+        <Text variant="bodyMedium" style={styles.emptyText}>
+          Tap the + button to start something new
+        </Text>
+      </View>
+    ) : habits.length > 0 ? (
+      <View style={styles.emptyState}>
+        <Text variant="headlineSmall" style={styles.emptyTitle}>
+          No matching habits
+        </Text>
+        <Text variant="bodyMedium" style={styles.emptyText}>
+          None of your habits have the selected tags
+        </Text>
+      </View>
+    ) : (
+      <View style={styles.emptyState}>
+        <Text variant="headlineSmall" style={styles.emptyTitle}>
+          No habits yet
+        </Text>
+        <Text variant="bodyMedium" style={styles.emptyText}>
+          Tap the + button to create your first habit, or start from a pack of
+          ready-made ones
+        </Text>
+        <Button
+          mode="outlined"
+          icon="view-grid-plus-outline"
+          onPress={() => navigation.navigate('Templates')}
+          style={styles.emptyButton}
+        >
+          Browse templates
+        </Button>
+      </View>
+    );
+
+  const renderFinishedChallenges = () =>
+    finishedChallenges.length > 0 ? (
+      <View style={styles.finishedChallenges}>
+        <Button
+          mode="text"
+          icon={showFinishedChallenges ? 'chevron-up' : 'chevron-down'}
+          onPress={() => setShowFinishedChallenges((prev) => !prev)}
+          style={styles.finishedToggle}
+        >
+          {`Completed challenges (${finishedChallenges.length})`}
+        </Button>
+        {showFinishedChallenges ? (
+          <View style={styles.finishedList}>
+            {finishedChallenges.map((habit) => (
+              <View key={habit.id}>{renderHabit(habit)}</View>
+            ))}
+          </View>
+        ) : null}
+      </View>
+    ) : null;
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -110,45 +293,256 @@ export default function HomeScreen() {
         <View>
           <Text variant="titleMedium">Welcome back!</Text>
           <Text variant="bodySmall" style={styles.email}>
-            {user?.email}
+            {user?.isLocal ? user.displayName : user?.email}
           </Text>
         </View>
-        <Button
-          mode="outlined"
-          onPress={signOut}
-          loading={authLoading}
-          disabled={authLoading}
-          compact
-        >
-          Sign Out
-        </Button>
+        <View style={styles.headerActions}>
+          <IconButton
+            icon="airplane"
+            size={20}
+            disabled={habits.length === 0}
+            onPress={() => setVacationDialogVisible(true)}
+            accessibilityLabel="Pause all habits"
+          />
+          <IconButton
+            icon="notebook-outline"
+            size={20}
+            onPress={() => navigation.navigate('Journal')}
+            accessibilityLabel="Journal"
+          />
+          <IconButton
+            icon="archive-outline"
+            size={20}
+            onPress={() => navigation.navigate('Archive')}
+            accessibilityLabel="Archive"
+          />
+          <IconButton
+            icon="cog"
+            size={20}
+            onPress={() => navigation.navigate('Settings')}
+          />
+          {accountsAvailable ? (
+            <Button
+              mode="outlined"
+              onPress={signOut}
+              loading={authLoading}
+              disabled={authLoading}
+              compact
+            >
+              {user?.isLocal ? 'Use an Account' : 'Sign Out'}
+            </Button>
+          ) : null}
+        </View>
       </View>
 
+      {localUpload.localHabitCount > 0 ? (
+        <View style={styles.uploadBanner}>
+          <Text variant="bodySmall" style={styles.uploadText}>
+            {localUpload.error ??
+              `${localUpload.localHabitCount} habit${
+                localUpload.localHabitCount === 1 ? '' : 's'
+              } saved on this device`}
+          </Text>
+          <Button
+            mode="text"
+            onPress={localUpload.upload}
+            loading={localUpload.uploading}
+            disabled={localUpload.uploading}
+            compact
+          >
+            Add to Account
+          </Button>
+        </View>
+      ) : null}
+
       {error ? (
         <View style={styles.errorBanner}>
           <Text style={styles.errorText}>{error}</Text>
         </View>
       ) : null}
 
-      <FlatList
-        data={habits}
-        renderItem={renderHabitItem}
-        keyExtractor={(item) => item.id}
-        contentContainerStyle={styles.listContent}
-        ListEmptyComponent={renderEmptyState}
-        refreshControl={
-          <RefreshControl refreshing={loading} onRefresh={refreshHabits} />
-        }
+      {subscriptionStatus === 'offline' ? (
+        <View style={styles.offlineBanner}>
+          <Text variant="bodySmall">
+            📴 Viewing offline data. It will update when you reconnect.
+          </Text>
+        </View>
+      ) : null}
+
+      {pendingSyncCount > 0 ? (
+        <View style={styles.syncBanner}>
+          <Text variant="bodySmall">
+            {pendingSyncCount} change{pendingSyncCount === 1 ? '' : 's'} pending
+            sync
+          </Text>
+        </View>
+      ) : null}
+
+      {habits.length > 0 ? (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filterBar}
+          contentContainerStyle={styles.filterChips}
+        >
+          <Chip selected={filter.length === 0} onPress={clearFilter}>
+            All
+          </Chip>
+          {tags.map((tag) => (
+            <Chip
+              key={tag}
+              selected={filter.some((t) => isSameTag(t, tag))}
+              onPress={() => toggleFilter(tag)}
+            >
+              {tag}
+            </Chip>
+          ))}
+          <Chip
+            icon={groupByTag ? 'view-agenda-outline' : 'format-list-bulleted'}
+            onPress={() => setGroupByTag(!groupByTag)}
+            accessibilityLabel={
+              groupByTag ? 'Show as one list' : 'Group by tag'
+            }
+          >
+            {groupByTag ? 'Grouped' : 'List'}
+          </Chip>
+          <Menu
+            visible={sortMenuVisible}
+            onDismiss={() => setSortMenuVisible(false)}
+            anchor={
+              <Chip icon="sort" onPress={() => setSortMenuVisible(true)}>
+                {
+                  HABIT_SORT_MODES.find(
+                    (option) => option.mode === settings.habitSort
+                  )?.label
+                }
+              </Chip>
+            }
+          >
+            {HABIT_SORT_MODES.map((option) => (
+              <Menu.Item
+                key={option.mode}
+                title={option.label}
+                leadingIcon={
+                  option.mode === settings.habitSort ? 'check' : undefined
+                }
+                onPress={() => {
+                  setSortMenuVisible(false);
+                  updateSettings({ habitSort: option.mode });
+                }}
+              />
+            ))}
+          </Menu>
+          <Chip icon="tag-multiple" onPress={() => navigation.navigate('Tags')}>
+            Manage Tags
+          </Chip>
+        </ScrollView>
+      ) : null}
+
+      {sections ? (
+        <SectionList
+          sections={sections}
+          renderItem={({ item }) => renderHabit(item)}
+          renderSectionHeader={({ section }) => (
+            <Text variant="titleSmall" style={styles.sectionHeader}>
+              {section.title}
+            </Text>
+          )}
+          keyExtractor={(item, index) => `${item.id}-${index}`}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={renderEmptyState}
+          ListFooterComponent={renderFinishedChallenges}
+          stickySectionHeadersEnabled={false}
+          refreshControl={
+            <RefreshControl refreshing={loading} onRefresh={refreshHabits} />
+          }
+        />
+      ) : settings.habitSort === 'manual' && visibleHabits.length > 1 ? (
+        <ReorderableList
+          data={visibleHabits}
+          renderItem={renderHabit}
+          keyExtractor={(item) => item.id}
+          onReorder={handleMoveHabit}
+          contentContainerStyle={styles.listContent}
+          ListFooterComponent={renderFinishedChallenges}
+          refreshControl={
+            <RefreshControl refreshing={loading} onRefresh={refreshHabits} />
+          }
+        />
+      ) : (
+        <FlatList
+          data={visibleHabits}
+          renderItem={({ item }) => renderHabit(item)}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={renderEmptyState}
+          ListFooterComponent={renderFinishedChallenges}
+          refreshControl={
+            <RefreshControl refreshing={loading} onRefresh={refreshHabits} />
+          }
+        />
+      )}
+
+      {skipHabit ? (
+        <SkipDialog
+          visible={true}
+          habitTitle={skipHabit.title}
+          date={today}
+          status={getDayStatus(skipHabit, today)}
+          onDismiss={() => setSkipHabitId(null)}
+          onConfirm={(status) => setDayStatus(skipHabit.id, today, status)}
+        />
+      ) : null}
+
+      {noteHabit ? (
+        <NoteDialog
+          visible={true}
+          habitTitle={noteHabit.title}
+          date={today}
+          note={noteHabit.notes[today]}
+          onDismiss={() => setNoteHabitId(null)}
+          onConfirm={(note) => setNote(noteHabit.id, today, note)}
+        />
+      ) : null}
+
+      {slipHabit ? (
+        <SlipDialog
+          visible={true}
+          habitTitle={slipHabit.title}
+          date={today}
+          today={today}
+          onDismiss={() => setSlipHabitId(null)}
+          onConfirm={(date, note) => logSlip(slipHabit.id, date, note)}
+        />
+      ) : null}
+
+      <PauseDialog
+        visible={vacationDialogVisible}
+        title="Vacation mode"
+        description="Pause all habits. Nothing is due and streaks are kept while you're away."
+        today={today}
+        onDismiss={() => setVacationDialogVisible(false)}
+        onConfirm={pauseAllHabits}
       />
 
       <FAB
         icon="plus"
         style={styles.fab}
-        onPress={() => {
-          // TODO: Navigate to AddHabit screen (Day 4)
-          console.log('Navigate to Add Habit screen');
-        }}
+        onPress={() => navigation.navigate('AddHabit')}
       />
+
+      <Snackbar
+        visible={!!undoHabit}
+        onDismiss={() => setUndoHabitId(null)}
+        action={{
+          label: 'Undo',
+          onPress: () => {
+            if (undoHabit) handleUndoDelete(undoHabit.id);
+          },
+        }}
+      >
+        {undoHabit ? `"${undoHabit.title}" moved to the trash` : ''}
+      </Snackbar>
     </View>
   );
 }
@@ -176,6 +570,10 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: colors.gray,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   email: {
     marginTop: 4,
     opacity: 0.7,
@@ -189,32 +587,45 @@ const styles = StyleSheet.create({
   errorText: {
     color: colors.error,
   },
-  listContent: {
-    padding: 16,
-    flexGrow: 1,
+  offlineBanner: {
+    backgroundColor: colors.offline,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    alignItems: 'center',
   },
-  card: {
-    marginBottom: 12,
+  syncBanner: {
+    backgroundColor: colors.pending,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    alignItems: 'center',
   },
-  habitHeader: {
+  uploadBanner: {
     flexDirection: 'row',
-    justifyContent: 'space-between',
     alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.white,
+    paddingLeft: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.gray,
   },
-  habitInfo: {
+  uploadText: {
     flex: 1,
   },
-  description: {
-    marginTop: 4,
-    opacity: 0.7,
+  filterBar: {
+    flexGrow: 0,
   },
-  frequency: {
-    marginTop: 8,
-    opacity: 0.6,
+  filterChips: {
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
   },
-  actions: {
-    flexDirection: 'row',
-    alignItems: 'center',
+  sectionHeader: {
+    marginBottom: 8,
+    opacity: 0.7,
+  },
+  listContent: {
+    padding: 16,
+    flexGrow: 1,
   },
   emptyState: {
     flex: 1,
@@ -229,6 +640,19 @@ const styles = StyleSheet.create({
     opacity: 0.7,
     textAlign: 'center',
   },
+  emptyButton: {
+    marginTop: 16,
+  },
+  finishedChallenges: {
+    marginTop: 8,
+  },
+  finishedToggle: {
+    alignSelf: 'flex-start',
+  },
+  finishedList: {
+    marginTop: 8,
+    opacity: 0.8,
+  },
   fab: {
     position: 'absolute',
     margin: 16,
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { View, StyleSheet, FlatList } from 'react-native';
+import { Text, Card, Icon, Searchbar } from 'react-native-paper';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useHabits } from '../hooks/useHabits';
+import { AppStackParamList } from '../types';
+import { colors } from '../constants/colors';
+import NoteDialog from '../components/NoteDialog';
+import { JournalEntry, MAX_RATING, getJournalEntries } from '../utils/journal';
+
+type JournalScreenNavigationProp = StackNavigationProp<
+  AppStackParamList,
+  'Journal'
+>;
+
+interface JournalScreenProps {
+  navigation: JournalScreenNavigationProp;
+}
+
+/**
+ * Stars for a 1-5 rating, e.g. "★★★☆☆"
+ */
+const formatRating = (rating: number): string =>
+  '★'.repeat(rating) + '☆'.repeat(MAX_RATING - rating);
+
+/**
+ * Journal Screen
+ * A timeline of completion notes across all habits, newest first, searchable
+ * by text. Tapping an entry edits it, long pressing opens its habit.
+ */
+const JournalScreen = ({ navigation }: JournalScreenProps) => {
+  const { habits: activeHabits, archivedHabits, setNote } = useHabits();
+  // Archived habits keep their notes in the journal
+  const habits = useMemo(
+    () => [...activeHabits, ...archivedHabits],
+    [activeHabits, archivedHabits]
+  );
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<{
+    habitId: string;
+    date: string;
+  } | null>(null);
+
+  const entries = useMemo(
+    () => getJournalEntries(habits, search),
+    [habits, search]
+  );
+  const editingHabit = habits.find((habit) => habit.id === editing?.habitId);
+
+  const renderEntry = ({ item }: { item: JournalEntry }) => (
+    <Card
+      style={styles.card}
+      mode="outlined"
+      onPress={() => setEditing({ habitId: item.habit.id, date: item.date })}
+      onLongPress={() =>
+        navigation.navigate('HabitDetail', { habitId: item.habit.id })
+      }
+    >
+      <Card.Content>
+        <View style={styles.entryHeader}>
+          {item.habit.icon ? (
+            <Icon
+              source={item.habit.icon}
+              size={20}
+              color={item.habit.color ?? colors.incomplete}
+            />
+          ) : null}
+          <Text variant="titleSmall" style={styles.entryTitle}>
+            {item.habit.title}
+          </Text>
+          <Text variant="bodySmall" style={styles.muted}>
+            {item.date}
+          </Text>
+        </View>
+        {item.note.rating ? (
+          <Text variant="bodyMedium" style={styles.rating}>
+            {formatRating(item.note.rating)}
+          </Text>
+        ) : null}
+        {item.note.note ? (
+          <Text variant="bodyMedium" style={styles.noteText}>
+            {item.note.note}
+          </Text>
+        ) : null}
+      </Card.Content>
+    </Card>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Text variant="headlineSmall" style={styles.emptyTitle}>
+        {search.trim() ? 'No matching notes' : 'No notes yet'}
+      </Text>
+      <Text variant="bodyMedium" style={styles.emptyText}>
+        {search.trim()
+          ? 'Try searching for something else'
+          : 'Add a note when you check off a habit to start your journal'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Searchbar
+        placeholder="Search notes"
+        value={search}
+        onChangeText={setSearch}
+        style={styles.search}
+      />
+
+      <FlatList
+        data={entries}
+        renderItem={renderEntry}
+        keyExtractor={(item) => `${item.habit.id}/${item.date}`}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={renderEmptyState}
+        keyboardShouldPersistTaps="handled"
+      />
+
+      {editing && editingHabit ? (
+        <NoteDialog
+          visible={true}
+          habitTitle={editingHabit.title}
+          date={editing.date}
+          note={editingHabit.notes[editing.date]}
+          onDismiss={() => setEditing(null)}
+          onConfirm={(note) => setNote(editingHabit.id, editing.date, note)}
+        />
+      ) : null}
+    </View>
+  );
+};
+
+export default JournalScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.white,
+  },
+  search: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  listContent: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  entryTitle: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+  rating: {
+    marginTop: 8,
+    color: colors.rating,
+  },
+  noteText: {
+    marginTop: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    marginBottom: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Text,
+  Button,
+  Card,
+  Icon,
+  IconButton,
+  ProgressBar,
+  HelperText,
+} from 'react-native-paper';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { useHabits } from '../hooks/useHabits';
+import { AppStackParamList } from '../types';
+import { colors } from '../constants/colors';
+import { formatProgress, isQuantitative } from '../utils/progress';
+import { getNextStepIndex, getRoutines, isStepDone } from '../utils/stacking';
+
+type RoutineScreenNavigationProp = StackNavigationProp<
+  AppStackParamList,
+  'Routine'
+>;
+
+interface RoutineScreenProps {
+  navigation: RoutineScreenNavigationProp;
+  route: RouteProp<AppStackParamList, 'Routine'>;
+}
+
+/**
+ * Routine Screen
+ * Walks through a chain of stacked habits one step at a time, starting at the
+ * first step left to do today. Checking a step off moves on to the next one.
+ */
+const RoutineScreen = ({ navigation, route }: RoutineScreenProps) => {
+  const { habits, today, setDayStatus, incrementProgress, decrementProgress } =
+    useHabits();
+  const routine = getRoutines(habits).find(
+    (r) => r.id === route.params.routineId
+  );
+  const [stepIndex, setStepIndex] = useState(() => {
+    const next = routine ? getNextStepIndex(routine, today) : -1;
+    return next === -1 ? 0 : next;
+  });
+  const [localError, setLocalError] = useState('');
+
+  if (!routine) {
+    return (
+      <View style={styles.notFound}>
+        <Text variant="bodyLarge">This routine no longer exists.</Text>
+      </View>
+    );
+  }
+
+  const count = routine.habits.length;
+  const step = routine.habits[stepIndex];
+  const doneCount = routine.habits.filter((habit) =>
+    isStepDone(habit, today)
+  ).length;
+
+  /**
+   * Move to the next step after the current one that's left to do
+   */
+  const goToNextStep = () => {
+    const next = routine.habits.findIndex(
+      (habit, index) => index > stepIndex && !isStepDone(habit, today)
+    );
+    setStepIndex(next === -1 ? count : next);
+  };
+
+  const handleDone = async () => {
+    if (!step) return;
+    try {
+      setLocalError('');
+      if (!step.completedDates.includes(today)) {
+        await setDayStatus(step.id, today, { type: 'done' });
+      }
+      goToNextStep();
+    } catch (err: unknown) {
+      setLocalError(
+        err instanceof Error ? err.message : 'Failed to check off habit'
+      );
+    }
+  };
+
+  const handleAdjustProgress = async (direction: 1 | -1) => {
+    if (!step) return;
+    try {
+      setLocalError('');
+      if (direction > 0) {
+        await incrementProgress(step.id, today);
+      } else {
+        await decrementProgress(step.id, today);
+      }
+    } catch (err: unknown) {
+      setLocalError(
+        err instanceof Error ? err.message : 'Failed to log progress'
+      );
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <Text variant="titleMedium">{routine.title} routine</Text>
+      <ProgressBar
+        progress={doneCount / count}
+        color={colors.completed}
+        style={styles.progress}
+      />
+      <Text variant="bodySmall" style={styles.muted}>
+        {doneCount} of {count} steps done today
+      </Text>
+
+      {step ? (
+        <Card mode="outlined" style={styles.stepCard}>
+          <Card.Content style={styles.stepContent}>
+            <Text variant="labelLarge" style={styles.muted}>
+              Step {stepIndex + 1} of {count}
+            </Text>
+            {step.icon ? (
+              <Icon
+                source={step.icon}
+                size={56}
+                color={step.color ?? colors.incomplete}
+              />
+            ) : null}
+            <Text variant="headlineSmall" style={styles.stepTitle}>
+              {step.title}
+            </Text>
+            {step.description ? (
+              <Text variant="bodyMedium" style={styles.muted}>
+                {step.description}
+              </Text>
+            ) : null}
+
+            {isQuantitative(step) ? (
+              <View style={styles.amountRow}>
+                <IconButton
+                  icon="minus-circle-outline"
+                  size={32}
+                  disabled={(step.progress[today] ?? 0) === 0}
+                  onPress={() => handleAdjustProgress(-1)}
+                />
+                <Text variant="titleMedium">
+                  {formatProgress(step.progress[today] ?? 0, step.target)}
+                </Text>
+                <IconButton
+                  icon="plus-circle"
+                  size={32}
+                  iconColor={
+                    step.completedDates.includes(today)
+                      ? colors.completed
+                      : colors.incomplete
+                  }
+                  onPress={() => handleAdjustProgress(1)}
+                />
+              </View>
+            ) : null}
+
+            {localError ? (
+              <HelperText type="error" visible={true}>
+                {localError}
+              </HelperText>
+            ) : null}
+          </Card.Content>
+          <Card.Actions>
+            <Button
+              onPress={() => setStepIndex(stepIndex - 1)}
+              disabled={stepIndex === 0}
+            >
+              Back
+            </Button>
+            <Button onPress={goToNextStep}>Skip for now</Button>
+            {isQuantitative(step) ? (
+              <Button mode="contained" onPress={goToNextStep}>
+                Next
+              </Button>
+            ) : (
+              <Button mode="contained" icon="check" onPress={handleDone}>
+                Done
+              </Button>
+            )}
+          </Card.Actions>
+        </Card>
+      ) : (
+        <Card mode="outlined" style={styles.stepCard}>
+          <Card.Content style={styles.stepContent}>
+            <Text variant="headlineSmall" style={styles.stepTitle}>
+              {doneCount === count
+                ? '🎉 Routine complete'
+                : 'End of the routine'}
+            </Text>
+            <Text variant="bodyMedium" style={styles.muted}>
+              {doneCount === count
+                ? 'Every step is done for today.'
+                : `${count - doneCount} step${count - doneCount === 1 ? '' : 's'} left for later.`}
+            </Text>
+          </Card.Content>
+          <Card.Actions>
+            <Button onPress={() => setStepIndex(0)}>Start Over</Button>
+            <Button mode="contained" onPress={() => navigation.goBack()}>
+              Finish
+            </Button>
+          </Card.Actions>
+        </Card>
+      )}
+
+      <Text variant="titleSmall" style={styles.stepsTitle}>
+        Steps
+      </Text>
+      {routine.habits.map((habit, index) => (
+        <Button
+          key={habit.id}
+          mode={index === stepIndex ? 'contained-tonal' : 'text'}
+          icon={isStepDone(habit, today) ? 'check-circle' : 'circle-outline'}
+          onPress={() => setStepIndex(index)}
+          contentStyle={styles.stepButton}
+        >
+          {`${index + 1}. ${habit.title}`}
+        </Button>
+      ))}
+    </ScrollView>
+  );
+};
+
+export default RoutineScreen;
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 20,
+    backgroundColor: colors.white,
+    flexGrow: 1,
+  },
+  notFound: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  muted: {
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+  progress: {
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  stepCard: {
+    marginTop: 16,
+  },
+  stepContent: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 16,
+  },
+  stepTitle: {
+    textAlign: 'center',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepsTitle: {
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  stepButton: {
+    justifyContent: 'flex-start',
+  },
+});
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, TextInput, Button, HelperText, Chip } from 'react-native-paper';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useSettings } from '../hooks/useSettings';
+import { useHabits } from '../hooks/useHabits';
+import { AppStackParamList } from '../types';
+import { isValidTimeZone } from '../utils/dateKeys';
+import { TRASH_RETENTION_OPTIONS } from '../utils/trash';
+import { colors } from '../constants/colors';
+
+const ROLLOVER_HOURS = [0, 1, 2, 3, 4, 5];
+
+/**
+ * Label for a day rollover hour
+ */
+const formatRolloverHour = (hour: number): string =>
+  hour === 0 ? 'Midnight' : `${hour} AM`;
+
+type SettingsScreenNavigationProp = StackNavigationProp<
+  AppStackParamList,
+  'Settings'
+>;
+
+interface SettingsScreenProps {
+  navigation: SettingsScreenNavigationProp;
+}
+
+const SettingsScreen = ({ navigation }: SettingsScreenProps) => {
+  const { settings, updateSettings } = useSettings();
+  const { today, trashedHabits } = useHabits();
+  const [timeZone, setTimeZone] = useState(settings.timeZone ?? '');
+  const [localError, setLocalError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const handleSaveTimeZone = async () => {
+    setLocalError('');
+
+    const trimmed = timeZone.trim();
+    if (trimmed && !isValidTimeZone(trimmed)) {
+      setLocalError('Unknown timezone. Use a name like "America/New_York".');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await updateSettings({ timeZone: trimmed || undefined });
+    } catch (err: unknown) {
+      setLocalError(
+        err instanceof Error ? err.message : 'Failed to save settings'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSelectRollover = async (hour: number) => {
+    try {
+      setLocalError('');
+      await updateSettings({ dayRolloverHour: hour });
+    } catch (err: unknown) {
+      setLocalError(
+        err instanceof Error ? err.message : 'Failed to save settings'
+      );
+    }
+  };
+
+  const handleSelectRetention = async (days: number) => {
+    try {
+      setLocalError('');
+      await updateSettings({ trashRetentionDays: days });
+    } catch (err: unknown) {
+      setLocalError(
+        err instanceof Error ? err.message : 'Failed to save settings'
+      );
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Timezone
+      </Text>
+      <TextInput
+        label="Timezone"
+        value={timeZone}
+        onChangeText={setTimeZone}
+        placeholder={deviceTimeZone}
+        autoCapitalize="none"
+        autoCorrect={false}
+        mode="outlined"
+        disabled={saving}
+      />
+      <HelperText type="info" visible={true}>
+        Leave empty to use this device&apos;s timezone ({deviceTimeZone})
+      </HelperText>
+      <Button
+        mode="contained"
+        onPress={handleSaveTimeZone}
+        loading={saving}
+        disabled={saving}
+        style={styles.button}
+      >
+        Save Timezone
+      </Button>
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        New day starts at
+      </Text>
+      <Text variant="bodySmall" style={styles.hint}>
+        Check-ins before this hour count towards the previous day.
+      </Text>
+      <View style={styles.chips}>
+        {ROLLOVER_HOURS.map((hour) => (
+          <Chip
+            key={hour}
+            selected={settings.dayRolloverHour === hour}
+            onPress={() => handleSelectRollover(hour)}
+            style={styles.chip}
+          >
+            {formatRolloverHour(hour)}
+          </Chip>
+        ))}
+      </View>
+
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        Trash
+      </Text>
+      <Text variant="bodySmall" style={styles.hint}>
+        Deleted habits can be restored until they have been in the trash this
+        long.
+      </Text>
+      <View style={styles.chips}>
+        {TRASH_RETENTION_OPTIONS.map((days) => (
+          <Chip
+            key={days}
+            selected={settings.trashRetentionDays === days}
+            onPress={() => handleSelectRetention(days)}
+            style={styles.chip}
+          >
+            {`${days} days`}
+          </Chip>
+        ))}
+      </View>
+      <Button
+        mode="outlined"
+        icon="delete-outline"
+        onPress={() => navigation.navigate('Trash')}
+        style={styles.trashButton}
+      >
+        {trashedHabits.length > 0
+          ? `Open Trash (${trashedHabits.length})`
+          : 'Open Trash'}
+      </Button>
+
+      {localError ? (
+        <HelperText type="error" visible={true}>
+          {localError}
+        </HelperText>
+      ) : null}
+
+      <Text variant="bodySmall" style={styles.hint}>
+        Today is {today}
+      </Text>
+    </ScrollView>
+  );
+};
+
+export default SettingsScreen;
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 20,
+    backgroundColor: colors.white,
+    flexGrow: 1,
+  },
+  sectionTitle: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  hint: {
+    marginBottom: 8,
+    opacity: 0.7,
+  },
+  button: {
+    marginTop: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    marginBottom: 4,
+  },
+  trashButton: {
+    marginBottom: 16,
+  },
+});
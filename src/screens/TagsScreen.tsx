@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  HelperText,
+  IconButton,
+  Dialog,
+  Portal,
+  Divider,
+} from 'react-native-paper';
+import { useTags } from '../hooks/useTags';
+import { colors } from '../constants/colors';
+import { TAG_MAX_LENGTH } from '../utils/tags';
+
+/**
+ * Tags Screen
+ * The tag manager: create tags, and rename or delete them across every habit
+ */
+const TagsScreen = () => {
+  const { tags, countHabits, addTag, renameTag, deleteTag } = useTags();
+  const [newTag, setNewTag] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameTo, setRenameTo] = useState('');
+  const [localError, setLocalError] = useState('');
+  const [renameError, setRenameError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = async () => {
+    try {
+      setLocalError('');
+      setSaving(true);
+      await addTag(newTag);
+      setNewTag('');
+    } catch (err: unknown) {
+      setLocalError(err instanceof Error ? err.message : 'Failed to add tag');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openRename = (tag: string) => {
+    setRenaming(tag);
+    setRenameTo(tag);
+    setRenameError('');
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+
+    try {
+      setSaving(true);
+      await renameTag(renaming, renameTo);
+      setRenaming(null);
+    } catch (err: unknown) {
+      setRenameError(
+        err instanceof Error ? err.message : 'Failed to rename tag'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (tag: string) => {
+    const count = countHabits(tag);
+    Alert.alert(
+      'Delete tag?',
+      count > 0
+        ? `"${tag}" will be removed from ${count} habit${count === 1 ? '' : 's'}.`
+        : `"${tag}" isn't used by any habit.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTag(tag);
+            } catch (err) {
+              console.error('Error deleting tag:', err);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.addRow}>
+        <TextInput
+          label="New tag"
+          value={newTag}
+          onChangeText={setNewTag}
+          placeholder="e.g. Health"
+          maxLength={TAG_MAX_LENGTH}
+          mode="outlined"
+          style={styles.addField}
+          onSubmitEditing={handleAdd}
+        />
+        <Button
+          mode="contained"
+          onPress={handleAdd}
+          loading={saving && !renaming}
+          disabled={saving || !newTag.trim()}
+        >
+          Add
+        </Button>
+      </View>
+      {localError ? (
+        <HelperText type="error" visible={true}>
+          {localError}
+        </HelperText>
+      ) : null}
+
+      {tags.length === 0 ? (
+        <Text variant="bodyMedium" style={styles.empty}>
+          No tags yet. Tags group and filter your habits on the home screen.
+        </Text>
+      ) : null}
+
+      {tags.map((tag, index) => {
+        const count = countHabits(tag);
+        return (
+          <View key={tag}>
+            {index > 0 ? <Divider /> : null}
+            <View style={styles.tagRow}>
+              <View style={styles.tagText}>
+                <Text variant="bodyLarge">{tag}</Text>
+                <Text variant="bodySmall" style={styles.muted}>
+                  {count} habit{count === 1 ? '' : 's'}
+                </Text>
+              </View>
+              <IconButton
+                icon="pencil"
+                size={20}
+                onPress={() => openRename(tag)}
+                accessibilityLabel={`Rename ${tag}`}
+              />
+              <IconButton
+                icon="delete"
+                size={20}
+                iconColor={colors.delete}
+                onPress={() => handleDelete(tag)}
+                accessibilityLabel={`Delete ${tag}`}
+              />
+            </View>
+          </View>
+        );
+      })}
+
+      <Portal>
+        <Dialog visible={renaming !== null} onDismiss={() => setRenaming(null)}>
+          <Dialog.Title>Rename tag</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label="Name"
+              value={renameTo}
+              onChangeText={setRenameTo}
+              maxLength={TAG_MAX_LENGTH}
+              mode="outlined"
+            />
+            {renameError ? (
+              <HelperText type="error" visible={true}>
+                {renameError}
+              </HelperText>
+            ) : null}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setRenaming(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onPress={handleRename} loading={saving} disabled={saving}>
+              Rename
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </ScrollView>
+  );
+};
+
+export default TagsScreen;
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 20,
+    backgroundColor: colors.white,
+    flexGrow: 1,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  addField: {
+    flex: 1,
+  },
+  empty: {
+    marginTop: 16,
+    opacity: 0.6,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  tagText: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+});
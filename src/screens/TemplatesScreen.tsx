@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Text,
+  Card,
+  Icon,
+  Button,
+  IconButton,
+  Divider,
+  HelperText,
+} from 'react-native-paper';
+import { useHabits } from '../hooks/useHabits';
+import { HabitTemplate, HabitTemplatePack } from '../types';
+import { colors } from '../constants/colors';
+import { HABIT_TEMPLATE_PACKS } from '../constants/habitTemplates';
+import { trackEvent } from '../utils/analytics';
+import { formatSchedule } from '../utils/schedule';
+import {
+  getTemplatesToAdd,
+  isTemplateAdded,
+  templateToHabitInput,
+} from '../utils/templates';
+
+/**
+ * Describe how often a template is done and how much, e.g. "Daily · 10 minutes"
+ */
+const describeTemplate = (template: HabitTemplate): string =>
+  [
+    template.kind === 'break'
+      ? 'Breaking'
+      : template.schedule
+        ? formatSchedule(template.schedule)
+        : template.frequency,
+    template.target ? `${template.target.value} ${template.target.unit}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+/**
+ * Templates Screen
+ * The built-in habit templates, grouped into starter packs. A single template
+ * or every template in a pack can be added in one tap; ones the user already
+ * has are marked as added.
+ */
+const TemplatesScreen = () => {
+  const { habits, createHabits } = useHabits();
+  // The pack or template being added, so only its button shows a spinner
+  const [adding, setAdding] = useState<string | null>(null);
+  const [localError, setLocalError] = useState('');
+
+  const addTemplates = async (key: string, templates: HabitTemplate[]) => {
+    try {
+      setLocalError('');
+      setAdding(key);
+      await createHabits(templates.map(templateToHabitInput));
+      trackEvent('templates_added', { source: key, count: templates.length });
+    } catch (err: unknown) {
+      setLocalError(
+        err instanceof Error ? err.message : 'Failed to add habits'
+      );
+    } finally {
+      setAdding(null);
+    }
+  };
+
+  const renderPack = (pack: HabitTemplatePack) => {
+    const remaining = getTemplatesToAdd(habits, pack);
+
+    return (
+      <Card key={pack.id} style={styles.card} mode="outlined">
+        <Card.Content>
+          <View style={styles.packHeader}>
+            <Icon source={pack.icon} size={28} color={colors.completed} />
+            <View style={styles.packText}>
+              <Text variant="titleMedium">{pack.title}</Text>
+              <Text variant="bodySmall" style={styles.muted}>
+                {pack.description}
+              </Text>
+            </View>
+          </View>
+
+          {pack.templates.map((template, index) => {
+            const added = isTemplateAdded(habits, template);
+            return (
+              <View key={template.id}>
+                {index > 0 ? <Divider /> : null}
+                <View style={styles.templateRow}>
+                  <Icon
+                    source={template.icon ?? 'star'}
+                    size={22}
+                    color={template.color ?? colors.incomplete}
+                  />
+                  <View style={styles.templateText}>
+                    <Text variant="bodyLarge">{template.title}</Text>
+                    <Text variant="bodySmall" style={styles.muted}>
+                      {describeTemplate(template)}
+                    </Text>
+                  </View>
+                  {added ? (
+                    <Icon source="check" size={22} color={colors.completed} />
+                  ) : (
+                    <IconButton
+                      icon="plus"
+                      size={20}
+                      disabled={adding !== null}
+                      onPress={() => addTemplates(template.id, [template])}
+                      accessibilityLabel={`Add ${template.title}`}
+                    />
+                  )}
+                </View>
+              </View>
+            );
+          })}
+        </Card.Content>
+        <Card.Actions>
+          <Button
+            mode="contained"
+            onPress={() => addTemplates(pack.id, remaining)}
+            loading={adding === pack.id}
+            disabled={adding !== null || remaining.length === 0}
+          >
+            {remaining.length === 0
+              ? 'All added'
+              : remaining.length === pack.templates.length
+                ? 'Add all'
+                : `Add ${remaining.length} more`}
+          </Button>
+        </Card.Actions>
+      </Card>
+    );
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <Text variant="bodyMedium" style={styles.intro}>
+        Start from a ready-made habit or a whole pack. You can edit anything
+        once it is added.
+      </Text>
+      {localError ? (
+        <HelperText type="error" visible={true}>
+          {localError}
+        </HelperText>
+      ) : null}
+      {HABIT_TEMPLATE_PACKS.map(renderPack)}
+    </ScrollView>
+  );
+};
+
+export default TemplatesScreen;
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  intro: {
+    opacity: 0.7,
+  },
+  card: {
+    backgroundColor: colors.white,
+  },
+  packHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  packText: {
+    flex: 1,
+  },
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    minHeight: 52,
+  },
+  templateText: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import {
+  Text,
+  Card,
+  Icon,
+  Button,
+  IconButton,
+  Divider,
+  HelperText,
+} from 'react-native-paper';
+import { useHabits } from '../hooks/useHabits';
+import { useSettings } from '../hooks/useSettings';
+import { Habit } from '../types';
+import { colors } from '../constants/colors';
+import { formatPurgeCountdown, getDeletedDate } from '../utils/trash';
+
+/**
+ * Trash Screen
+ * Lists deleted habits, most recent first. A habit can be restored with all
+ * its history, or deleted for good. Habits left in the trash are deleted for
+ * good once the retention period set in Settings has passed.
+ */
+const TrashScreen = () => {
+  const {
+    trashedHabits,
+    today,
+    restoreHabit,
+    deleteHabitPermanently,
+    emptyTrash,
+  } = useHabits();
+  const { settings } = useSettings();
+  const [localError, setLocalError] = useState('');
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setLocalError('');
+      await action();
+    } catch (err: unknown) {
+      setLocalError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  /**
+   * Describe when a habit was deleted and when it will be purged
+   */
+  const describeDeletion = (habit: Habit): string => {
+    const options = {
+      timeZone: settings.timeZone,
+      rolloverHour: settings.dayRolloverHour,
+    };
+    return `Deleted ${getDeletedDate(habit, options)} · ${formatPurgeCountdown(
+      habit,
+      today,
+      settings.trashRetentionDays,
+      options
+    )}`;
+  };
+
+  const handleDeleteForever = (habit: Habit) => {
+    Alert.alert(
+      'Delete forever?',
+      `"${habit.title}" and its history will be gone for good.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            run(
+              () => deleteHabitPermanently(habit.id),
+              'Failed to delete habit'
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty the trash?',
+      `${trashedHabits.length} habit${trashedHabits.length === 1 ? '' : 's'} and their history will be gone for good.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: () => run(emptyTrash, 'Failed to empty the trash'),
+        },
+      ]
+    );
+  };
+
+  if (trashedHabits.length === 0) {
+    return (
+      <View style={styles.emptyState}>
+        <Icon
+          source="delete-empty-outline"
+          size={48}
+          color={colors.incomplete}
+        />
+        <Text variant="titleMedium" style={styles.emptyTitle}>
+          The trash is empty
+        </Text>
+        <Text variant="bodySmall" style={styles.muted}>
+          Deleted habits stay here for {settings.trashRetentionDays} days.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <Text variant="bodyMedium" style={styles.muted}>
+        Restore a habit to bring back its history. Habits are deleted for good
+        after {settings.trashRetentionDays} days in the trash.
+      </Text>
+      {localError ? (
+        <HelperText type="error" visible={true}>
+          {localError}
+        </HelperText>
+      ) : null}
+
+      <Card style={styles.card} mode="outlined">
+        <Card.Content>
+          {trashedHabits.map((habit, index) => (
+            <View key={habit.id}>
+              {index > 0 ? <Divider /> : null}
+              <View style={styles.habitRow}>
+                <Icon
+                  source={habit.icon ?? 'star'}
+                  size={22}
+                  color={habit.color ?? colors.incomplete}
+                />
+                <View style={styles.habitText}>
+                  <Text variant="bodyLarge">{habit.title}</Text>
+                  <Text variant="bodySmall" style={styles.muted}>
+                    {describeDeletion(habit)}
+                  </Text>
+                </View>
+                <Button
+                  compact
+                  onPress={() =>
+                    run(() => restoreHabit(habit.id), 'Failed to restore habit')
+                  }
+                >
+                  Restore
+                </Button>
+                <IconButton
+                  icon="delete-forever"
+                  size={20}
+                  iconColor={colors.delete}
+                  onPress={() => handleDeleteForever(habit)}
+                  accessibilityLabel={`Delete ${habit.title} forever`}
+                />
+              </View>
+            </View>
+          ))}
+        </Card.Content>
+      </Card>
+
+      <Button
+        mode="outlined"
+        icon="delete-sweep"
+        textColor={colors.delete}
+        onPress={handleEmptyTrash}
+      >
+        Empty Trash
+      </Button>
+    </ScrollView>
+  );
+};
+
+export default TrashScreen;
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: colors.white,
+  },
+  habitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    minHeight: 56,
+  },
+  habitText: {
+    flex: 1,
+  },
+  muted: {
+    opacity: 0.6,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    gap: 8,
+  },
+  emptyTitle: {
+    marginTop: 8,
+  },
+});
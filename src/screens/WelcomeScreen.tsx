@@ -1,9 +1,11 @@
 import React from 'react';
 import { StyleSheet, View } from 'react-native';
-import { Text, Button } from 'react-native-paper';
+import { Text, Button, HelperText, Icon } from 'react-native-paper';
 import { StackNavigationProp } from '@react-navigation/stack';
+import { useAuth } from '../hooks/useAuth';
 import { AuthStackParamList } from '../types';
 import { colors } from '../constants/colors';
+import { HABIT_TEMPLATE_PACKS } from '../constants/habitTemplates';
 
 type WelcomeScreenNavigationProp = StackNavigationProp<
   AuthStackParamList,
@@ -15,6 +17,16 @@ interface WelcomeScreenProps {
 }
 
 const WelcomeScreen = ({ navigation }: WelcomeScreenProps) => {
+  const { accountsAvailable, startLocalMode, error } = useAuth();
+
+  const handleContinueLocally = async () => {
+    try {
+      await startLocalMode();
+    } catch (err) {
+      console.error('Error starting local mode:', err);
+    }
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.content}>
@@ -24,23 +36,52 @@ const WelcomeScreen = ({ navigation }: WelcomeScreenProps) => {
         <Text variant="bodyLarge" style={styles.subtitle}>
           Build better habits, one day at a time
         </Text>
+        <View style={styles.packs}>
+          <Text variant="labelLarge" style={styles.packsTitle}>
+            Starter packs are waiting in Templates
+          </Text>
+          <View style={styles.packList}>
+            {HABIT_TEMPLATE_PACKS.map((pack) => (
+              <View key={pack.id} style={styles.pack}>
+                <Icon source={pack.icon} size={16} color={colors.black} />
+                <Text variant="bodyMedium">{pack.title}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
       </View>
 
       <View style={styles.buttons}>
+        {accountsAvailable ? (
+          <>
+            <Button
+              mode="contained"
+              onPress={() => navigation.navigate('Login')}
+              style={styles.button}
+            >
+              Sign In
+            </Button>
+            <Button
+              mode="outlined"
+              onPress={() => navigation.navigate('SignUp')}
+              style={styles.button}
+            >
+              Create Account
+            </Button>
+          </>
+        ) : null}
         <Button
-          mode="contained"
-          onPress={() => navigation.navigate('Login')}
+          mode="text"
+          onPress={handleContinueLocally}
           style={styles.button}
         >
-          Sign In
-        </Button>
-        <Button
-          mode="outlined"
-          onPress={() => navigation.navigate('SignUp')}
-          style={styles.button}
-        >
-          Create Account
+          Continue without an account
         </Button>
+        {error ? (
+          <HelperText type="error" visible>
+            {error}
+          </HelperText>
+        ) : null}
       </View>
     </View>
   );
@@ -67,6 +108,25 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     opacity: 0.7,
   },
+  packs: {
+    marginTop: 32,
+    alignItems: 'center',
+  },
+  packsTitle: {
+    marginBottom: 8,
+    opacity: 0.7,
+  },
+  packList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  pack: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   buttons: {
     gap: 12,
   },
@@ -15,12 +15,31 @@ import { User } from '../types';
  */
 
 class AuthService {
-  private auth: Auth;
+  private auth: Auth | null;
 
-  constructor(authInstance: Auth) {
+  constructor(authInstance: Auth | null) {
     this.auth = authInstance;
   }
 
+  /**
+   * Whether accounts can be used, false when Firebase isn't configured
+   */
+  isAvailable(): boolean {
+    return this.auth !== null;
+  }
+
+  /**
+   * Get the Auth instance, throwing when accounts aren't available
+   */
+  private requireAuth(): Auth {
+    if (!this.auth) {
+      throw new Error(
+        'Accounts are not available in this build. Continue without an account instead.'
+      );
+    }
+    return this.auth;
+  }
+
   /**
    * Create a new user with email and password
    */
@@ -29,10 +48,12 @@ class AuthService {
     console.log('🔵 Auth instance exists:', !!this.auth);
     console.log('🔵 Auth app name:', this.auth?.app?.name);
 
+    const auth = this.requireAuth();
+
     try {
       console.log('🔵 Calling createUserWithEmailAndPassword...');
       const userCredential = await createUserWithEmailAndPassword(
-        this.auth,
+        auth,
         email,
         password
       );
@@ -48,9 +69,11 @@ class AuthService {
    * Sign in existing user with email and password
    */
   async signIn(email: string, password: string): Promise<User> {
+    const auth = this.requireAuth();
+
     try {
       const userCredential = await signInWithEmailAndPassword(
-        this.auth,
+        auth,
         email,
         password
       );
@@ -64,6 +87,8 @@ class AuthService {
    * Sign out current user
    */
   async signOut(): Promise<void> {
+    if (!this.auth) return;
+
     try {
       await firebaseSignOut(this.auth);
     } catch (error: unknown) {
@@ -75,7 +100,7 @@ class AuthService {
    * Get current authenticated user
    */
   getCurrentUser(): User | null {
-    const firebaseUser = this.auth.currentUser;
+    const firebaseUser = this.auth?.currentUser;
     return firebaseUser ? this.mapFirebaseUser(firebaseUser) : null;
   }
 
@@ -83,6 +108,12 @@ class AuthService {
    * Subscribe to authentication state changes
    */
   onAuthStateChanged(callback: (user: User | null) => void): () => void {
+    // Without Firebase nobody can be signed in
+    if (!this.auth) {
+      callback(null);
+      return () => undefined;
+    }
+
     return onAuthStateChanged(this.auth, (firebaseUser) => {
       const user = firebaseUser ? this.mapFirebaseUser(firebaseUser) : null;
       callback(user);
@@ -1,42 +1,111 @@
 import {
   collection,
   doc,
-  addDoc,
+  setDoc,
   updateDoc,
   deleteDoc,
+  getDoc,
   getDocs,
-  query,
-  where,
-  orderBy,
+  deleteField,
+  arrayRemove,
+  arrayUnion,
+  writeBatch,
   onSnapshot,
   serverTimestamp,
   Timestamp,
   FirestoreError,
   UpdateData,
+  WriteBatch,
 } from 'firebase/firestore';
 import { db } from '../config/firebaseConfig';
-import { Habit, HabitInput, HabitDocument } from '../types';
+import {
+  DayStatus,
+  Habit,
+  HabitInput,
+  HabitNote,
+  HabitSkip,
+  HabitSlip,
+  HabitDocument,
+  HabitsSnapshotMetadata,
+  MigrationStatusDocument,
+  HabitRepository,
+  CompletionDocument,
+  NewHabit,
+} from '../types';
+import { normalizeScheduleInput } from '../utils/schedule';
+import { getCompletedDatesFromProgress } from '../utils/progress';
+import { getCompletedDatesFromChecklist } from '../utils/checklist';
+import { assertDateKey, isValidDateKey } from '../utils/dateKeys';
+import { buildNewHabit } from '../utils/habits';
+import {
+  CURRENT_SCHEMA_VERSION,
+  getMigrationChanges,
+  getSchemaVersion,
+  needsMigration,
+  upgradeHabitDocument,
+} from '../utils/migrations';
+import { sortHabitsByOrder } from '../utils/ordering';
 
 /**
  * Habit Service
  * @description Abstracts Firebase Firestore operations for habits
  */
 
+/**
+ * Get the Firestore instance, which only exists when Firebase is configured
+ * @returns The Firestore instance
+ */
+const getDb = () => {
+  if (!db) {
+    throw new Error(
+      'Cloud sync is not available. Habits are stored on this device only.'
+    );
+  }
+  return db;
+};
+
 /**
  * Get the habits collection reference for the current user
  * @returns The habits collection reference
  */
 const getUserHabitsCollection = (userId: string) => {
-  return collection(db, 'users', userId, 'habits');
+  return collection(getDb(), 'users', userId, 'habits');
+};
+
+/**
+ * Get the completions subcollection reference for a habit
+ * @returns The completions collection reference
+ */
+const getHabitCompletionsCollection = (userId: string, habitId: string) => {
+  return collection(getDb(), 'users', userId, 'habits', habitId, 'completions');
+};
+
+/**
+ * Get the reference to a single completion, keyed by its date
+ * @returns The completion document reference
+ */
+const getCompletionRef = (userId: string, habitId: string, date: string) => {
+  return doc(getDb(), 'users', userId, 'habits', habitId, 'completions', date);
 };
 
+// Firestore allows 500 writes per batch, leave room for the habit doc itself
+const MAX_BATCH_WRITES = 450;
+
 /**
  * Map Firestore document data to our Habit type
- * @param data The Firestore document data
+ * @param stored The Firestore document data, in any schema version
  * @param id The habit's ID
+ * @param completions The habit's completion documents
  * @returns The mapped Habit
  */
-const mapDocToHabit = (id: string, data: HabitDocument): Habit => {
+const mapDocToHabit = (
+  id: string,
+  stored: HabitDocument,
+  completions: CompletionDocument[] = []
+): Habit => {
+  // Documents written by older versions are upgraded as they're read
+  const data = upgradeHabitDocument(stored);
+
   // Convert Timestamp to ISO string, or use string directly
   const createdAt =
     data.createdAt instanceof Timestamp
@@ -48,17 +117,80 @@ const mapDocToHabit = (id: string, data: HabitDocument): Habit => {
       ? data.updatedAt.toDate().toISOString()
       : data.updatedAt || new Date().toISOString();
 
+  // Merge the completions subcollection with any legacy fields that haven't
+  // been migrated yet, so callers keep seeing a single completedDates list
+  const progress: Record<string, number> = { ...data.progress };
+  const binaryDates = new Set(data.completedDates || []);
+  const skips: Record<string, HabitSkip> = {};
+  const notes: Record<string, HabitNote> = {};
+  const checkedItems: Record<string, string[]> = {};
+  completions.forEach((completion) => {
+    if (completion.skip) {
+      // A skip replaces any legacy completion for the same date
+      skips[completion.date] = completion.skip;
+      binaryDates.delete(completion.date);
+      delete progress[completion.date];
+      return;
+    }
+
+    if (completion.amount !== undefined) {
+      progress[completion.date] = completion.amount;
+    } else if (completion.checked !== undefined) {
+      // Done or not depending on the checklist, worked out below
+      checkedItems[completion.date] = completion.checked;
+      binaryDates.delete(completion.date);
+    } else {
+      binaryDates.add(completion.date);
+    }
+    if (completion.note || completion.rating) {
+      notes[completion.date] = {
+        ...(completion.note && { note: completion.note }),
+        ...(completion.rating && { rating: completion.rating }),
+      };
+    }
+  });
+
+  // Quantitative habits are only complete on days the target was met, and
+  // checklist habits once enough items were checked
+  const { checklist } = data;
+  const completedDates = data.target
+    ? getCompletedDatesFromProgress(progress, data.target)
+    : getCompletedDatesFromChecklist({
+        checklist,
+        checklistThreshold: data.checklistThreshold,
+        checkedItems,
+        completedDates: Array.from(binaryDates),
+      });
+
   return {
     id,
     userId: data.userId,
     title: data.title,
-    description: data.description || '',
+    description: data.description,
+    kind: data.kind,
     frequency: data.frequency,
+    schedule: data.schedule,
     createdAt,
     updatedAt,
-    completedDates: data.completedDates || [],
+    completedDates,
+    target: data.target,
+    progress,
     color: data.color,
     icon: data.icon,
+    tags: data.tags,
+    sortOrder: data.sortOrder,
+    pauses: data.pauses,
+    frozenDates: data.frozenDates,
+    skips,
+    notes,
+    slips: data.slips ?? [],
+    challenge: data.challenge,
+    followsHabitId: data.followsHabitId,
+    checklist,
+    checklistThreshold: data.checklistThreshold,
+    checkedItems,
+    archivedAt: data.archivedAt,
+    deletedAt: data.deletedAt,
   };
 };
 
@@ -114,43 +246,89 @@ const handleFirestoreError = (
   return new Error(message);
 };
 
+/**
+ * Generate an ID for a new habit without contacting the server
+ * @description Lets a habit be created (and referenced by later changes)
+ * while offline.
+ * @param userId The user's ID
+ * @returns A new unique habit ID
+ */
+export const generateHabitId = (userId: string): string => {
+  return doc(getUserHabitsCollection(userId)).id;
+};
+
+/**
+ * Build the document for a new habit
+ * @description Completions are stored in the habit's subcollection, and
+ * slips are left out so retrying the create can't wipe any logged since.
+ * @param habit The new habit
+ * @param createdAt The creation date of a habit being imported, the server
+ * time is used otherwise
+ * @returns The document data, with server timestamps
+ */
+const buildHabitDocument = (habit: Habit, createdAt?: string) => {
+  const habitData: Omit<
+    HabitDocument,
+    'createdAt' | 'updatedAt' | 'completedDates' | 'progress' | 'slips'
+  > = {
+    userId: habit.userId,
+    title: habit.title,
+    description: habit.description,
+    kind: habit.kind,
+    frequency: habit.frequency,
+    schedule: habit.schedule,
+    ...(habit.target && { target: habit.target }),
+    ...(habit.color && { color: habit.color }),
+    ...(habit.icon && { icon: habit.icon }),
+    tags: habit.tags,
+    ...(habit.sortOrder !== undefined && { sortOrder: habit.sortOrder }),
+    pauses: habit.pauses,
+    frozenDates: habit.frozenDates,
+    ...(habit.challenge && { challenge: habit.challenge }),
+    ...(habit.followsHabitId && { followsHabitId: habit.followsHabitId }),
+    checklist: habit.checklist,
+    ...(habit.checklistThreshold && {
+      checklistThreshold: habit.checklistThreshold,
+    }),
+    ...(habit.archivedAt && { archivedAt: habit.archivedAt }),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+  };
+
+  return {
+    ...habitData,
+    // Add timestamps to the habit data
+    createdAt: createdAt
+      ? Timestamp.fromDate(new Date(createdAt))
+      : serverTimestamp(),
+    updatedAt: serverTimestamp(), // timestamp is a placeholder for the current time
+  };
+};
+
 /**
  * Create a new habit
  * @param userId The user's ID
  * @param input The habit to create provided by the user
+ * @param habitId Optional pre-generated ID, makes retrying the create safe
+ * @param createdAt Optional creation date, for a habit being imported
  * @returns The created habit
  */
 export const createHabit = async (
   userId: string,
-  input: HabitInput
+  input: HabitInput,
+  habitId: string = generateHabitId(userId),
+  createdAt?: string
 ): Promise<Habit> => {
   try {
-    const habitsRef = getUserHabitsCollection(userId);
-
-    // Create habit data object without timestamps
-    const habitData: Omit<HabitDocument, 'createdAt' | 'updatedAt'> = {
-      userId,
-      title: input.title.trim(),
-      description: input.description?.trim() || '',
-      frequency: input.frequency,
-      completedDates: [],
-      color: input.color,
-      icon: input.icon,
+    const habitRef = doc(getUserHabitsCollection(userId), habitId);
+    const habit = {
+      ...buildNewHabit(habitId, userId, input),
+      ...(createdAt && { createdAt }),
     };
 
-    const docRef = await addDoc(habitsRef, {
-      ...habitData,
-      createdAt: serverTimestamp(), // Add timestamps to the habit data
-      updatedAt: serverTimestamp(), // timestamp is a placeholder for the current time
-    });
+    await setDoc(habitRef, buildHabitDocument(habit, createdAt));
 
     // return the created habit
-    return {
-      id: docRef.id,
-      ...habitData,
-      createdAt: new Date(), // date comes from the user's device
-      updatedAt: new Date(), // date changes milliseconds later when the habit is updated with the server timestamp
-    };
+    return habit;
   } catch (error: unknown) {
     // If an error occurs, throw it wrapped in our custom error
     console.error('❌ Error creating habit:', error);
@@ -159,22 +337,80 @@ export const createHabit = async (
 };
 
 /**
- * Get all habits for a user
+ * Create several habits at once, e.g. a template pack
+ * @description Habits are written in batches, so a pack appears all at once
+ * and costs a single round trip. Every habit has a pre-generated ID, so
+ * retrying the whole batch is safe.
  * @param userId The user's ID
- * @returns The habits
+ * @param habits The habits to create, with their IDs
+ * @returns The created habits
  */
-export const getHabits = async (userId: string): Promise<Habit[]> => {
+export const createHabits = async (
+  userId: string,
+  habits: NewHabit[]
+): Promise<Habit[]> => {
   try {
-    const habitsRef = getUserHabitsCollection(userId);
+    const created = habits.map(({ habitId, input }) =>
+      buildNewHabit(habitId, userId, input)
+    );
+
+    for (let i = 0; i < created.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(getDb());
+      created.slice(i, i + MAX_BATCH_WRITES).forEach((habit) => {
+        batch.set(
+          doc(getUserHabitsCollection(userId), habit.id),
+          buildHabitDocument(habit)
+        );
+      });
+      await batch.commit();
+    }
 
-    const q = query(habitsRef, orderBy('createdAt', 'desc'));
+    return created;
+  } catch (error: unknown) {
+    console.error('❌ Error creating habits:', error);
+    throw handleFirestoreError(error as FirestoreError, 'create habits');
+  }
+};
 
-    const querySnapshot = await getDocs(q);
+/**
+ * Get all completion documents for a habit
+ * @param userId The user's ID
+ * @param habitId The habit's ID
+ * @returns The completion documents
+ */
+const getHabitCompletions = async (
+  userId: string,
+  habitId: string
+): Promise<CompletionDocument[]> => {
+  const snapshot = await getDocs(
+    getHabitCompletionsCollection(userId, habitId)
+  );
+  return snapshot.docs.map((doc) => doc.data() as CompletionDocument);
+};
 
-    // Map the documents to our Habit type
-    return querySnapshot.docs.map((doc) =>
-      mapDocToHabit(doc.id, doc.data() as HabitDocument)
+/**
+ * Get all habits for a user
+ * @description Habits are sorted on the device rather than with orderBy,
+ * since habits that were never moved have no sortOrder and Firestore leaves
+ * documents without the ordered field out of a query.
+ * @param userId The user's ID
+ * @returns The habits, in the user's manual order
+ */
+export const getHabits = async (userId: string): Promise<Habit[]> => {
+  try {
+    const querySnapshot = await getDocs(getUserHabitsCollection(userId));
+
+    // Map the documents to our Habit type, along with their completions
+    const habits = await Promise.all(
+      querySnapshot.docs.map(async (doc) =>
+        mapDocToHabit(
+          doc.id,
+          doc.data() as HabitDocument,
+          await getHabitCompletions(userId, doc.id)
+        )
+      )
     );
+    return sortHabitsByOrder(habits);
   } catch (error: unknown) {
     console.error('❌ Error getting habits:', error);
     throw handleFirestoreError(error as FirestoreError, 'get habits');
@@ -194,10 +430,31 @@ export const updateHabit = async (
   updates: Partial<HabitInput>
 ): Promise<void> => {
   try {
-    const habitsRef = doc(db, 'users', userId, 'habits', habitId);
+    const habitsRef = doc(getDb(), 'users', userId, 'habits', habitId);
 
+    const {
+      challenge,
+      followsHabitId,
+      checklistThreshold,
+      archivedAt,
+      ...rest
+    } = normalizeScheduleInput(updates);
     const updateData: UpdateData<HabitDocument> = {
-      ...updates,
+      ...rest,
+      // null removes the challenge, unstacks the habit, requires every step or
+      // unarchives the habit
+      ...(challenge !== undefined && {
+        challenge: challenge ?? deleteField(),
+      }),
+      ...(followsHabitId !== undefined && {
+        followsHabitId: followsHabitId ?? deleteField(),
+      }),
+      ...(checklistThreshold !== undefined && {
+        checklistThreshold: checklistThreshold ?? deleteField(),
+      }),
+      ...(archivedAt !== undefined && {
+        archivedAt: archivedAt ?? deleteField(),
+      }),
       updatedAt: serverTimestamp(),
     };
 
@@ -216,7 +473,38 @@ export const updateHabit = async (
 };
 
 /**
- * Delete a habit
+ * Move a habit to the trash, or restore it
+ * @description Trashed habits keep their completions, so restoring one
+ * brings back its whole history.
+ * @param userId The user's ID
+ * @param habitId The habit's ID
+ * @param deletedAt When the habit was trashed, or null to restore it
+ * @returns void
+ */
+export const setHabitDeleted = async (
+  userId: string,
+  habitId: string,
+  deletedAt: string | null
+): Promise<void> => {
+  try {
+    const habitRef = doc(getDb(), 'users', userId, 'habits', habitId);
+    await updateDoc(habitRef, {
+      deletedAt: deletedAt ?? deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error: unknown) {
+    console.error('❌ Error moving habit to the trash:', error);
+    throw handleFirestoreError(
+      error as FirestoreError,
+      deletedAt ? 'delete habit' : 'restore habit'
+    );
+  }
+};
+
+/**
+ * Delete a habit for good
+ * @description Firestore doesn't delete subcollections with their parent, so
+ * the habit's completions are removed first.
  * @param userId The user's ID
  * @param habitId The habit's ID
  * @returns void
@@ -226,8 +514,20 @@ export const deleteHabit = async (
   habitId: string
 ): Promise<void> => {
   try {
-    const habitsRef = doc(db, 'users', userId, 'habits', habitId);
-    await deleteDoc(habitsRef);
+    const habitRef = doc(getDb(), 'users', userId, 'habits', habitId);
+    const completions = await getDocs(
+      getHabitCompletionsCollection(userId, habitId)
+    );
+
+    // Delete completions in chunks before the habit itself
+    const refs = completions.docs.map((completion) => completion.ref);
+    for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(getDb());
+      refs.slice(i, i + MAX_BATCH_WRITES).forEach((ref) => batch.delete(ref));
+      await batch.commit();
+    }
+
+    await deleteDoc(habitRef);
   } catch (error: unknown) {
     console.error('❌ Error deleting habit:', error);
     throw handleFirestoreError(error as FirestoreError, 'delete habit');
@@ -235,81 +535,531 @@ export const deleteHabit = async (
 };
 
 /**
- * Toggle habit completion for a specific date
+ * Set a habit's status on a specific date
+ * @description The date's completion document holds a single status, so
+ * writing one replaces any other. Marking a day done keeps its note and
+ * checked items, skipping it clears them. Writes are idempotent: setting the
+ * same status twice, or from two devices at once, converges on the same
+ * result without reading first. Quantitative habits log progress instead of
+ * "done".
  * @param userId The user's ID
  * @param habitId The habit's ID
- * @param date The date to toggle the habit completion for
+ * @param date The date key (YYYY-MM-DD, from getDateKey) to update
+ * @param status Done, skipped with a reason, or none
  * @returns void
  */
-export const toggleHabitCompletion = async (
+export const setHabitDayStatus = async (
   userId: string,
   habitId: string,
-  date: string
+  date: string,
+  status: DayStatus
 ): Promise<void> => {
+  assertDateKey(date);
+
   try {
-    const habitRef = doc(db, 'users', userId, 'habits', habitId);
+    const habitRef = doc(getDb(), 'users', userId, 'habits', habitId);
+    const completionRef = getCompletionRef(userId, habitId, date);
+    const batch = writeBatch(getDb());
+
+    if (status.type === 'done') {
+      batch.set(
+        completionRef,
+        {
+          date,
+          amount: deleteField(),
+          skip: deleteField(),
+          updatedAt: serverTimestamp(),
+        },
+        { merge: true }
+      );
+      batch.update(habitRef, { updatedAt: serverTimestamp() });
+    } else {
+      if (status.type === 'skipped') {
+        const skip: HabitSkip = {
+          reason: status.reason,
+          ...(status.note?.trim() && { note: status.note.trim() }),
+        };
+        batch.set(
+          completionRef,
+          {
+            date,
+            skip,
+            amount: deleteField(),
+            checked: deleteField(),
+            note: deleteField(),
+            rating: deleteField(),
+            updatedAt: serverTimestamp(),
+          },
+          { merge: true }
+        );
+      } else {
+        batch.delete(completionRef);
+      }
+      // Also clear the date from the legacy fields if they haven't been migrated
+      batch.update(habitRef, {
+        completedDates: arrayRemove(date),
+        [`progress.${date}`]: deleteField(),
+        updatedAt: serverTimestamp(),
+      });
+    }
+
+    await batch.commit();
+  } catch (error: unknown) {
+    console.error('❌ Error updating habit day status:', error);
+    throw handleFirestoreError(error as FirestoreError, 'update habit day');
+  }
+};
+
+/**
+ * Set the logged amount of a quantitative habit for a specific date
+ * @description The amount is merged into the date's completion so its note
+ * is kept, and any skip on the date is removed.
+ * @param userId The user's ID
+ * @param habitId The habit's ID
+ * @param date The date to log progress for
+ * @param amount The new total amount for that date, 0 clears it
+ * @returns void
+ */
+export const setHabitProgress = async (
+  userId: string,
+  habitId: string,
+  date: string,
+  amount: number
+): Promise<void> => {
+  assertDateKey(date);
+
+  try {
+    const habitRef = doc(getDb(), 'users', userId, 'habits', habitId);
+    const completionRef = getCompletionRef(userId, habitId, date);
+    const batch = writeBatch(getDb());
+
+    if (amount > 0) {
+      batch.set(
+        completionRef,
+        { date, amount, skip: deleteField(), updatedAt: serverTimestamp() },
+        { merge: true }
+      );
+    } else {
+      batch.delete(completionRef);
+    }
+
+    // Drop any legacy value for this date so it can't shadow the new one
+    batch.update(habitRef, {
+      [`progress.${date}`]: deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+
+    await batch.commit();
+  } catch (error: unknown) {
+    console.error('❌ Error logging habit progress:', error);
+    throw handleFirestoreError(error as FirestoreError, 'log habit progress');
+  }
+};
+
+/**
+ * Set the checklist items checked on a specific date
+ * @description The checked items are merged into the date's completion so
+ * its note is kept, and any skip on the date is removed. Whether the habit is
+ * done follows from the checklist when it's read.
+ * @param userId The user's ID
+ * @param habitId The habit's ID
+ * @param date The date key to update
+ * @param checked The IDs of the checked items, empty clears the date
+ * @returns void
+ */
+export const setHabitChecklist = async (
+  userId: string,
+  habitId: string,
+  date: string,
+  checked: string[]
+): Promise<void> => {
+  assertDateKey(date);
 
-    // Get the current habit data
-    const habitsRef = getUserHabitsCollection(userId);
-    const q = query(habitsRef, where('__name__', '==', habitId));
-    const snapshot = await getDocs(q);
+  try {
+    const habitRef = doc(getDb(), 'users', userId, 'habits', habitId);
+    const completionRef = getCompletionRef(userId, habitId, date);
+    const batch = writeBatch(getDb());
 
-    if (snapshot.empty) {
-      throw new Error('Habit not found');
+    if (checked.length > 0) {
+      batch.set(
+        completionRef,
+        { date, checked, skip: deleteField(), updatedAt: serverTimestamp() },
+        { merge: true }
+      );
+    } else {
+      batch.delete(completionRef);
     }
 
-    const habitData = snapshot.docs[0].data() as HabitDocument;
-    const completedDates = habitData.completedDates || [];
+    // Drop any legacy completion for this date so it can't shadow the items
+    batch.update(habitRef, {
+      completedDates: arrayRemove(date),
+      updatedAt: serverTimestamp(),
+    });
+
+    await batch.commit();
+  } catch (error: unknown) {
+    console.error('❌ Error updating habit checklist:', error);
+    throw handleFirestoreError(error as FirestoreError, 'update checklist');
+  }
+};
+
+/**
+ * Set or clear the note and rating on a habit's completion for a date
+ * @description Notes are stored on the completion document, so this fails
+ * with not-found if the date has no completion.
+ * @param userId The user's ID
+ * @param habitId The habit's ID
+ * @param date The date key of the completion
+ * @param note The new note and rating, null to clear both
+ * @returns void
+ */
+export const setHabitNote = async (
+  userId: string,
+  habitId: string,
+  date: string,
+  note: HabitNote | null
+): Promise<void> => {
+  assertDateKey(date);
+
+  try {
+    await updateDoc(getCompletionRef(userId, habitId, date), {
+      note: note?.note?.trim() || deleteField(),
+      rating: note?.rating ?? deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error: unknown) {
+    console.error('❌ Error saving habit note:', error);
+    throw handleFirestoreError(error as FirestoreError, 'save note');
+  }
+};
+
+/**
+ * Log or remove a slip of a habit being broken
+ * @description Slips are stored in an array on the habit document. Array
+ * union and remove match the whole slip, so both are idempotent.
+ * @param userId The user's ID
+ * @param habitId The habit's ID
+ * @param slip The slip
+ * @param logged Whether the slip should be logged or removed
+ * @returns void
+ */
+export const setHabitSlip = async (
+  userId: string,
+  habitId: string,
+  slip: HabitSlip,
+  logged: boolean
+): Promise<void> => {
+  assertDateKey(slip.date);
+
+  try {
+    const habitRef = doc(getDb(), 'users', userId, 'habits', habitId);
 
-    // Toggle: remove if exists, add if it doesn't
-    const dateIndex = completedDates.indexOf(date);
-    const newCompletedDates =
-      dateIndex < 0
-        ? completedDates.filter((d) => d !== date)
-        : [...completedDates, date];
+    // Firestore rejects undefined values, so only include a note if there is one
+    const stored: HabitSlip = {
+      id: slip.id,
+      date: slip.date,
+      ...(slip.note && { note: slip.note }),
+    };
 
     await updateDoc(habitRef, {
-      completedDates: newCompletedDates,
+      slips: logged ? arrayUnion(stored) : arrayRemove(stored),
       updatedAt: serverTimestamp(),
     });
   } catch (error: unknown) {
-    console.error('❌ Error toggling habit completion:', error);
-    throw handleFirestoreError(
-      error as FirestoreError,
-      'toggle habit completion'
-    );
+    console.error('❌ Error updating habit slip:', error);
+    throw handleFirestoreError(error as FirestoreError, 'log slip');
   }
 };
 
 /**
  * Subscribe to real-time habit updates
+ * @description Listens to the habits collection and to each habit's
+ * completions subcollection, and only reports habits once every habit's
+ * completions have loaded so nothing briefly shows as unchecked. Habits are
+ * reported in the user's manual order, sorted like getHabits does. Updates
+ * say whether any of the data came from the offline cache, and are also sent
+ * when the data is confirmed by the server. Firestore ends every listener
+ * after an error, so the first error stops the whole subscription.
  * @param userId The user's ID
  * @param onUpdate The callback to call when the habit is updated
+ * @param onError The callback to call if the subscription fails
  * @returns An unsubscribe function to stop listening
  */
 export const subscribeToHabits = (
   userId: string,
-  onUpdate: (habits: Habit[]) => void
+  onUpdate: (habits: Habit[], metadata: HabitsSnapshotMetadata) => void,
+  onError?: (error: Error) => void
 ) => {
   const habitsRef = getUserHabitsCollection(userId);
-  const q = query(habitsRef, orderBy('createdAt', 'desc'));
+
+  const habitDocs = new Map<string, HabitDocument>();
+  const completions = new Map<string, CompletionDocument[]>();
+  const completionUnsubscribes = new Map<string, () => void>();
+  // Listeners whose latest snapshot came from the cache, 'habits' for the list
+  const cachedSources = new Set<string>();
+  let habitIds: string[] | null = null;
+  let failed = false;
+
+  const stopListening = () => {
+    unsubscribe();
+    completionUnsubscribes.forEach((unsubscribeCompletions) =>
+      unsubscribeCompletions()
+    );
+    completionUnsubscribes.clear();
+  };
+
+  const handleError = (error: FirestoreError) => {
+    if (failed) return;
+    failed = true;
+    console.error('❌ Error subscribing to habits:', error);
+    stopListening();
+    onError?.(handleFirestoreError(error, 'subscribe to habits'));
+  };
+
+  // Report habits once the habit list and all their completions are loaded
+  const emit = () => {
+    if (failed) return;
+    if (!habitIds || habitIds.some((id) => !completions.has(id))) return;
+
+    onUpdate(
+      sortHabitsByOrder(
+        habitIds.map((id) =>
+          mapDocToHabit(
+            id,
+            habitDocs.get(id) as HabitDocument,
+            completions.get(id)
+          )
+        )
+      ),
+      { fromCache: cachedSources.size > 0 }
+    );
+  };
+
+  const trackSource = (source: string, fromCache: boolean) => {
+    if (fromCache) {
+      cachedSources.add(source);
+    } else {
+      cachedSources.delete(source);
+    }
+  };
 
   const unsubscribe = onSnapshot(
-    q,
+    habitsRef,
+    { includeMetadataChanges: true },
     (snapshot) => {
-      const habits = snapshot.docs.map((doc) =>
-        mapDocToHabit(doc.id, doc.data() as HabitDocument)
-      );
-      onUpdate(habits);
+      trackSource('habits', snapshot.metadata.fromCache);
+      habitIds = snapshot.docs.map((doc) => doc.id);
+      snapshot.docs.forEach((doc) => {
+        habitDocs.set(doc.id, doc.data() as HabitDocument);
+      });
+
+      // Stop listening to completions of habits that were removed
+      completionUnsubscribes.forEach((unsubscribeCompletions, id) => {
+        if (habitIds?.includes(id)) return;
+        unsubscribeCompletions();
+        completionUnsubscribes.delete(id);
+        completions.delete(id);
+        habitDocs.delete(id);
+        cachedSources.delete(id);
+      });
+
+      // Start listening to completions of new habits
+      habitIds.forEach((id) => {
+        if (completionUnsubscribes.has(id)) return;
+        completionUnsubscribes.set(
+          id,
+          onSnapshot(
+            getHabitCompletionsCollection(userId, id),
+            { includeMetadataChanges: true },
+            (completionSnapshot) => {
+              trackSource(id, completionSnapshot.metadata.fromCache);
+              completions.set(
+                id,
+                completionSnapshot.docs.map(
+                  (doc) => doc.data() as CompletionDocument
+                )
+              );
+              emit();
+            },
+            handleError
+          )
+        );
+      });
+
+      emit();
     },
-    (error) => {
-      console.error('❌ Error subscribing to habits:', error);
-      throw handleFirestoreError(
-        error as FirestoreError,
-        'subscribe to habits'
-      );
-    }
+    handleError
+  );
+
+  return stopListening;
+};
+
+/**
+ * Add a write to a batch, committing and starting a new batch when it's full
+ * @param state The current batch and its write count
+ * @param write The write to add
+ * @returns void
+ */
+const addBatchedWrite = async (
+  state: { batch: WriteBatch; writes: number },
+  write: (batch: WriteBatch) => void
+): Promise<void> => {
+  if (state.writes >= MAX_BATCH_WRITES) {
+    await state.batch.commit();
+    state.batch = writeBatch(getDb());
+    state.writes = 0;
+  }
+  write(state.batch);
+  state.writes++;
+};
+
+/**
+ * Get the reference to a user's migration status
+ * @returns The migration status document reference
+ */
+const getMigrationStatusRef = (userId: string) => {
+  return doc(getDb(), 'users', userId, 'meta', 'migrations');
+};
+
+/**
+ * Copy a habit's legacy completions into the completions subcollection
+ * @description Schema version 1 moved `completedDates` and `progress` from
+ * the habit document into per-date completion documents. Dates that already
+ * have a completion document are skipped, since it was written since and
+ * may hold a note, checked items or a skip. That also makes copying again
+ * after an interruption safe.
+ * @param userId The user's ID
+ * @param habitId The habit's ID
+ * @param data The habit document
+ * @param state The current batch and its write count
+ * @returns void
+ */
+const copyLegacyCompletions = async (
+  userId: string,
+  habitId: string,
+  data: HabitDocument,
+  state: { batch: WriteBatch; writes: number }
+): Promise<void> => {
+  const existing = await getDocs(
+    getHabitCompletionsCollection(userId, habitId)
+  );
+  const existingDates = new Set(
+    existing.docs.map((completion) => completion.id)
   );
 
-  return unsubscribe;
+  for (const date of data.completedDates ?? []) {
+    if (!isValidDateKey(date) || existingDates.has(date)) continue;
+    await addBatchedWrite(state, (batch) =>
+      batch.set(getCompletionRef(userId, habitId, date), {
+        date,
+        updatedAt: serverTimestamp(),
+      })
+    );
+  }
+
+  for (const [date, amount] of Object.entries(data.progress ?? {})) {
+    if (!isValidDateKey(date) || amount <= 0 || existingDates.has(date)) {
+      continue;
+    }
+    await addBatchedWrite(state, (batch) =>
+      batch.set(getCompletionRef(userId, habitId, date), {
+        date,
+        amount,
+        updatedAt: serverTimestamp(),
+      })
+    );
+  }
+};
+
+/**
+ * Upgrade every habit document to the current schema version
+ * @description Runs each habit through the migration steps it hasn't had
+ * yet and records progress in the user's migration status, so a run that's
+ * already complete costs a single read. A habit's new schema version is
+ * written in the same batch as (or after) the rest of its upgrade, and every
+ * step is safe to repeat, so an interrupted run simply resumes with the
+ * habits it didn't get to.
+ * @param userId The user's ID
+ * @returns The number of habits migrated
+ */
+export const migrateHabits = async (userId: string): Promise<number> => {
+  try {
+    const statusRef = getMigrationStatusRef(userId);
+    const status = await getDoc(statusRef);
+    const statusData = status.data() as MigrationStatusDocument | undefined;
+    if (
+      statusData?.state === 'complete' &&
+      statusData.schemaVersion >= CURRENT_SCHEMA_VERSION
+    ) {
+      return 0;
+    }
+
+    await setDoc(statusRef, {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      state: 'running',
+      startedAt: serverTimestamp(),
+      migratedHabits: 0,
+    });
+
+    const snapshot = await getDocs(getUserHabitsCollection(userId));
+    let migrated = 0;
+
+    for (const habitDoc of snapshot.docs) {
+      const data = habitDoc.data() as HabitDocument;
+      if (!needsMigration(data)) continue;
+
+      const state = { batch: writeBatch(getDb()), writes: 0 };
+
+      if (getSchemaVersion(data) < 1) {
+        await copyLegacyCompletions(userId, habitDoc.id, data, state);
+      }
+
+      const changes = getMigrationChanges(data);
+      state.batch.update(habitDoc.ref, {
+        ...changes,
+        // Merge slips in, so any logged since the habit was read are kept
+        ...(changes.slips && { slips: arrayUnion(...changes.slips) }),
+        completedDates: deleteField(),
+        progress: deleteField(),
+      });
+      await state.batch.commit();
+      migrated++;
+    }
+
+    await setDoc(
+      statusRef,
+      {
+        state: 'complete',
+        completedAt: serverTimestamp(),
+        migratedHabits: migrated,
+      },
+      { merge: true }
+    );
+
+    return migrated;
+  } catch (error: unknown) {
+    console.error('❌ Error migrating habits:', error);
+    throw handleFirestoreError(error as FirestoreError, 'migrate habits');
+  }
+};
+
+/**
+ * Firestore habit repository
+ * @description The habit service as a HabitRepository, for HabitsProvider
+ */
+export const firestoreHabitRepository: HabitRepository = {
+  generateHabitId,
+  createHabit,
+  createHabits,
+  getHabits,
+  updateHabit,
+  deleteHabit,
+  setHabitDayStatus,
+  setHabitChecklist,
+  setHabitProgress,
+  setHabitNote,
+  setHabitSlip,
+  setHabitDeleted,
+  subscribeToHabits,
+  migrateHabits,
 };
@@ -0,0 +1,349 @@
+import {
+  DayStatus,
+  Habit,
+  HabitInput,
+  HabitNote,
+  HabitRepository,
+  HabitSlip,
+  HabitsSnapshotMetadata,
+  NewHabit,
+} from '../types';
+import {
+  applyDayStatus,
+  applyCheckedItems,
+  applyHabitUpdates,
+  applyLoggedProgress,
+  buildNewHabit,
+  withDerivedCompletions,
+} from '../utils/habits';
+import { applySlip } from '../utils/slips';
+import { applyDeletedAt } from '../utils/trash';
+import { applyNote, canAddNote } from '../utils/journal';
+import { sortHabitsByOrder } from '../utils/ordering';
+import { assertDateKey } from '../utils/dateKeys';
+
+/**
+ * In-Memory Habit Repository
+ * Keeps habits in memory with live subscriptions, for running and exercising
+ * the app without a Firebase project
+ */
+
+type HabitListener = (
+  habits: Habit[],
+  metadata: HabitsSnapshotMetadata
+) => void;
+
+// Habits kept on the device are always up to date, never a stale cache
+const LIVE_METADATA: HabitsSnapshotMetadata = { fromCache: false };
+
+export class InMemoryHabitRepository implements HabitRepository {
+  protected habits = new Map<string, Habit>();
+  // Resolves once stored habits are loaded, subclasses may load asynchronously
+  protected ready: Promise<void> = Promise.resolve();
+  private listeners = new Map<string, Set<HabitListener>>();
+  private idCounter = 0;
+
+  constructor(initialHabits: Habit[] = []) {
+    initialHabits.forEach((habit) => {
+      this.habits.set(habit.id, this.clone(habit));
+    });
+  }
+
+  /**
+   * Generate a unique habit ID
+   */
+  generateHabitId = (_userId: string): string => {
+    this.idCounter += 1;
+    return `local-${Date.now().toString(36)}-${this.idCounter}`;
+  };
+
+  /**
+   * Create a new habit. Creating an existing ID again overwrites its details
+   * but, like the Firestore completions subcollection, keeps its completions
+   * and slips. `createdAt` keeps the creation date of a habit being imported
+   */
+  createHabit = async (
+    userId: string,
+    input: HabitInput,
+    habitId: string = this.generateHabitId(userId),
+    createdAt?: string
+  ): Promise<Habit> => {
+    await this.ready;
+    const existing = this.habits.get(habitId);
+    const habit = this.withTimestamps(
+      withDerivedCompletions({
+        ...buildNewHabit(habitId, userId, input),
+        ...(createdAt && { createdAt }),
+        ...(existing && {
+          completedDates: existing.completedDates,
+          progress: existing.progress,
+          skips: existing.skips,
+          notes: existing.notes,
+          slips: existing.slips,
+          checkedItems: existing.checkedItems,
+        }),
+      })
+    );
+    this.habits.set(habitId, habit);
+    this.notify(userId);
+    return this.clone(habit);
+  };
+
+  /**
+   * Create several habits at once
+   */
+  createHabits = async (
+    userId: string,
+    habits: NewHabit[]
+  ): Promise<Habit[]> => {
+    const created: Habit[] = [];
+    for (const { habitId, input } of habits) {
+      created.push(await this.createHabit(userId, input, habitId));
+    }
+    return created;
+  };
+
+  /**
+   * Get all habits for a user, in their manual order
+   */
+  getHabits = async (userId: string): Promise<Habit[]> => {
+    await this.ready;
+    return this.getUserHabits(userId);
+  };
+
+  /**
+   * Update a habit
+   */
+  updateHabit = async (
+    userId: string,
+    habitId: string,
+    updates: Partial<HabitInput>
+  ): Promise<void> => {
+    await this.ready;
+    const habit = this.getHabitOrThrow(userId, habitId);
+    this.habits.set(
+      habitId,
+      this.withTimestamps(applyHabitUpdates(habit, updates))
+    );
+    this.notify(userId);
+  };
+
+  /**
+   * Delete a habit for good, deleting a missing habit is a no-op like
+   * Firestore
+   */
+  deleteHabit = async (userId: string, habitId: string): Promise<void> => {
+    await this.ready;
+    const habit = this.habits.get(habitId);
+    if (!habit || habit.userId !== userId) return;
+
+    this.habits.delete(habitId);
+    this.notify(userId);
+  };
+
+  /**
+   * Set a habit's status on a date
+   */
+  setHabitDayStatus = async (
+    userId: string,
+    habitId: string,
+    date: string,
+    status: DayStatus
+  ): Promise<void> => {
+    await this.ready;
+    assertDateKey(date);
+    const habit = this.getHabitOrThrow(userId, habitId);
+
+    this.habits.set(habitId, {
+      ...applyDayStatus(habit, date, status),
+      updatedAt: new Date().toISOString(),
+    });
+    this.notify(userId);
+  };
+
+  /**
+   * Set the logged amount of a quantitative habit on a date
+   */
+  setHabitProgress = async (
+    userId: string,
+    habitId: string,
+    date: string,
+    amount: number
+  ): Promise<void> => {
+    await this.ready;
+    assertDateKey(date);
+    const habit = this.getHabitOrThrow(userId, habitId);
+
+    this.habits.set(habitId, {
+      ...applyLoggedProgress(habit, date, amount),
+      updatedAt: new Date().toISOString(),
+    });
+    this.notify(userId);
+  };
+
+  /**
+   * Set the checklist items checked on a date
+   */
+  setHabitChecklist = async (
+    userId: string,
+    habitId: string,
+    date: string,
+    checked: string[]
+  ): Promise<void> => {
+    await this.ready;
+    assertDateKey(date);
+    const habit = this.getHabitOrThrow(userId, habitId);
+
+    this.habits.set(habitId, {
+      ...applyCheckedItems(habit, date, checked),
+      updatedAt: new Date().toISOString(),
+    });
+    this.notify(userId);
+  };
+
+  /**
+   * Set or clear the note on a habit's completion, like Firestore it fails if
+   * the date has no completion
+   */
+  setHabitNote = async (
+    userId: string,
+    habitId: string,
+    date: string,
+    note: HabitNote | null
+  ): Promise<void> => {
+    await this.ready;
+    assertDateKey(date);
+    const habit = this.getHabitOrThrow(userId, habitId);
+    if (!canAddNote(habit, date)) {
+      throw new Error('The requested item was not found.');
+    }
+
+    this.habits.set(habitId, {
+      ...applyNote(habit, date, note),
+      updatedAt: new Date().toISOString(),
+    });
+    this.notify(userId);
+  };
+
+  /**
+   * Log or remove a slip of a habit being broken
+   */
+  setHabitSlip = async (
+    userId: string,
+    habitId: string,
+    slip: HabitSlip,
+    logged: boolean
+  ): Promise<void> => {
+    await this.ready;
+    assertDateKey(slip.date);
+    const habit = this.getHabitOrThrow(userId, habitId);
+
+    this.habits.set(habitId, {
+      ...applySlip(habit, slip, logged),
+      updatedAt: new Date().toISOString(),
+    });
+    this.notify(userId);
+  };
+
+  /**
+   * Move a habit to the trash, or restore it
+   */
+  setHabitDeleted = async (
+    userId: string,
+    habitId: string,
+    deletedAt: string | null
+  ): Promise<void> => {
+    await this.ready;
+    const habit = this.getHabitOrThrow(userId, habitId);
+
+    this.habits.set(
+      habitId,
+      this.withTimestamps(applyDeletedAt(habit, deletedAt))
+    );
+    this.notify(userId);
+  };
+
+  /**
+   * Subscribe to a user's habits, called right away and after every change.
+   * Nothing can fail here, so there are no errors to report
+   */
+  subscribeToHabits = (
+    userId: string,
+    onUpdate: HabitListener
+  ): (() => void) => {
+    const listeners = this.listeners.get(userId) ?? new Set<HabitListener>();
+    listeners.add(onUpdate);
+    this.listeners.set(userId, listeners);
+
+    // Deliver the initial state asynchronously, like Firestore does
+    this.ready.then(() => {
+      if (listeners.has(onUpdate)) {
+        onUpdate(this.getUserHabits(userId), LIVE_METADATA);
+      }
+    });
+
+    return () => {
+      listeners.delete(onUpdate);
+    };
+  };
+
+  /**
+   * Nothing to migrate, habits are always stored in the current shape
+   */
+  migrateHabits = async (_userId: string): Promise<number> => {
+    return 0;
+  };
+
+  /**
+   * Tell a user's subscribers that their habits changed
+   */
+  protected notify(userId: string): void {
+    const listeners = this.listeners.get(userId);
+    if (!listeners || listeners.size === 0) return;
+
+    const habits = this.getUserHabits(userId);
+    Promise.resolve().then(() => {
+      listeners.forEach((listener) => listener(habits, LIVE_METADATA));
+    });
+  }
+
+  /**
+   * Get copies of a user's habits, in their manual order
+   */
+  protected getUserHabits(userId: string): Habit[] {
+    return sortHabitsByOrder(
+      Array.from(this.habits.values()).filter(
+        (habit) => habit.userId === userId
+      )
+    ).map((habit) => this.clone(habit));
+  }
+
+  /**
+   * Find a user's habit, throwing the same message as the Firestore service
+   */
+  private getHabitOrThrow(userId: string, habitId: string): Habit {
+    const habit = this.habits.get(habitId);
+    if (!habit || habit.userId !== userId) {
+      throw new Error('The requested item was not found.');
+    }
+    return habit;
+  }
+
+  /**
+   * Store timestamps as ISO strings, matching habits read from Firestore
+   */
+  private withTimestamps(habit: Habit): Habit {
+    return {
+      ...habit,
+      createdAt: new Date(habit.createdAt).toISOString(),
+      updatedAt: new Date(habit.updatedAt).toISOString(),
+    };
+  }
+
+  /**
+   * Deep copy a habit so callers can't mutate stored state
+   */
+  private clone(habit: Habit): Habit {
+    return JSON.parse(JSON.stringify(habit)) as Habit;
+  }
+}
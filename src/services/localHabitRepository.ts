@@ -0,0 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { InMemoryHabitRepository } from './inMemoryHabitRepository';
+import { replayOperation } from './syncQueue';
+import { Habit, HabitRepository, SyncOperation } from '../types';
+import { LOCAL_USER } from '../constants/localMode';
+import { toHabitInput } from '../utils/habits';
+import { isQuantitative } from '../utils/progress';
+
+/**
+ * Local Habit Repository
+ * Stores habits on this device in AsyncStorage, for local-only mode
+ */
+
+const LOCAL_HABITS_STORAGE_KEY = '@habittrackerpro/localHabits';
+
+class LocalHabitRepository extends InMemoryHabitRepository {
+  constructor() {
+    super();
+    this.ready = this.load();
+  }
+
+  /**
+   * Notify subscribers and save every change to storage
+   */
+  protected notify(userId: string): void {
+    super.notify(userId);
+    this.persist();
+  }
+
+  /**
+   * Load saved habits from storage
+   */
+  private async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(LOCAL_HABITS_STORAGE_KEY);
+      if (!stored) return;
+
+      // Fill in fields added since the habits were saved
+      (JSON.parse(stored) as Habit[]).forEach((habit) => {
+        this.habits.set(habit.id, {
+          ...habit,
+          kind: habit.kind ?? 'build',
+          tags: habit.tags ?? [],
+          pauses: habit.pauses ?? [],
+          frozenDates: habit.frozenDates ?? [],
+          skips: habit.skips ?? {},
+          notes: habit.notes ?? {},
+          slips: habit.slips ?? [],
+          checklist: habit.checklist ?? [],
+          checkedItems: habit.checkedItems ?? {},
+        });
+      });
+    } catch (error: unknown) {
+      console.error('❌ Error loading local habits:', error);
+    }
+  }
+
+  /**
+   * Save all habits to storage
+   */
+  private persist(): void {
+    AsyncStorage.setItem(
+      LOCAL_HABITS_STORAGE_KEY,
+      JSON.stringify(Array.from(this.habits.values()))
+    ).catch((error: unknown) => {
+      console.error('❌ Error saving local habits:', error);
+    });
+  }
+}
+
+export const localHabitRepository = new LocalHabitRepository();
+
+/**
+ * Get the writes that recreate a local habit in an account
+ * @description The habit keeps its ID and creation date, so its clean runs
+ * and manual order carry over.
+ * @param habit The local habit
+ * @returns The operations to send, in order
+ */
+const getUploadOperations = (habit: Habit): SyncOperation[] => {
+  const habitId = habit.id;
+  const operations: SyncOperation[] = [
+    {
+      type: 'createHabit',
+      habitId,
+      input: toHabitInput(habit),
+      createdAt: new Date(habit.createdAt).toISOString(),
+    },
+  ];
+
+  if (isQuantitative(habit)) {
+    Object.entries(habit.progress).forEach(([date, amount]) =>
+      operations.push({ type: 'setProgress', habitId, date, amount })
+    );
+  } else {
+    // Days done by checking items are uploaded with their items below
+    habit.completedDates
+      .filter((date) => !(date in habit.checkedItems))
+      .forEach((date) =>
+        operations.push({
+          type: 'setDayStatus',
+          habitId,
+          date,
+          status: { type: 'done' },
+        })
+      );
+    Object.entries(habit.checkedItems).forEach(([date, checked]) =>
+      operations.push({ type: 'setChecklist', habitId, date, checked })
+    );
+  }
+
+  Object.entries(habit.skips).forEach(([date, skip]) =>
+    operations.push({
+      type: 'setDayStatus',
+      habitId,
+      date,
+      status: { type: 'skipped', ...skip },
+    })
+  );
+  Object.entries(habit.notes).forEach(([date, note]) =>
+    operations.push({ type: 'setNote', habitId, date, note })
+  );
+  habit.slips.forEach((slip) =>
+    operations.push({ type: 'setSlip', habitId, slip, logged: true })
+  );
+
+  // Trashed habits stay in the trash, and can still be restored
+  if (habit.deletedAt) {
+    operations.push({
+      type: 'setDeleted',
+      habitId,
+      deletedAt: habit.deletedAt,
+    });
+  }
+
+  return operations;
+};
+
+/**
+ * Upload the local profile's habits into an account
+ * @description Habits keep their IDs, and each one is removed from the
+ * device only after it and its completions were uploaded, so an interrupted
+ * upload can simply be retried. Writes are sent like the outbox sends them,
+ * so the upload stops instead of hanging when the server can't be reached.
+ * @param target The account's habit repository
+ * @param userId The account's user ID
+ * @returns The number of habits uploaded
+ */
+export const uploadLocalHabits = async (
+  target: HabitRepository,
+  userId: string
+): Promise<number> => {
+  const habits = await localHabitRepository.getHabits(LOCAL_USER.uid);
+
+  for (const habit of habits) {
+    for (const operation of getUploadOperations(habit)) {
+      const result = await replayOperation(target, userId, operation);
+      if (result.status === 'offline') {
+        throw new Error(
+          "Couldn't reach the server. Your habits are still on this device, try again once you're online."
+        );
+      }
+      if (result.status === 'failed') {
+        throw result.error;
+      }
+    }
+
+    await localHabitRepository.deleteHabit(LOCAL_USER.uid, habit.id);
+  }
+
+  return habits.length;
+};
@@ -0,0 +1,51 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppSettings } from '../types';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../utils/trash';
+
+/**
+ * Settings Service
+ * @description Persists device-level preferences in AsyncStorage
+ */
+
+const SETTINGS_STORAGE_KEY = '@habittrackerpro/settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  timeZone: undefined,
+  dayRolloverHour: 0,
+  localMode: false,
+  tags: ['Health', 'Work', 'Learning'],
+  tagFilter: [],
+  groupByTag: false,
+  habitSort: 'manual',
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+};
+
+/**
+ * Load the saved settings, falling back to defaults
+ * @returns The app settings
+ */
+export const loadSettings = async (): Promise<AppSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+
+    return { ...DEFAULT_SETTINGS, ...(JSON.parse(stored) as AppSettings) };
+  } catch (error: unknown) {
+    console.error('❌ Error loading settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Save settings
+ * @param settings The settings to save
+ * @returns void
+ */
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error: unknown) {
+    console.error('❌ Error saving settings:', error);
+    throw new Error('Failed to save settings. Please try again.');
+  }
+};
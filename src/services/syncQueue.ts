@@ -0,0 +1,429 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  Habit,
+  HabitRepository,
+  NewHabit,
+  PendingOperation,
+  SyncOperation,
+} from '../types';
+import {
+  applyCheckedItems,
+  applyDayStatus,
+  applyHabitUpdates,
+  applyLoggedProgress,
+  buildNewHabit,
+} from '../utils/habits';
+import { applyNote } from '../utils/journal';
+import { applySlip } from '../utils/slips';
+import { applyDeletedAt } from '../utils/trash';
+import { sortHabitsByOrder } from '../utils/ordering';
+
+/**
+ * Sync Queue
+ * @description A durable outbox for habit changes. Changes are queued in
+ * AsyncStorage first and replayed to the server in order, so nothing is lost
+ * if the app is closed while offline.
+ */
+
+const QUEUE_STORAGE_KEY_PREFIX = '@habittrackerpro/outbox/';
+
+// How long to wait for the server to acknowledge a write before assuming
+// we're offline and trying again later
+const OPERATION_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Get the storage key for a user's outbox
+ */
+const getQueueStorageKey = (userId: string) =>
+  `${QUEUE_STORAGE_KEY_PREFIX}${userId}`;
+
+/**
+ * Load a user's queued operations
+ * @param userId The user's ID
+ * @returns The queued operations, oldest first
+ */
+export const loadQueue = async (
+  userId: string
+): Promise<PendingOperation[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(getQueueStorageKey(userId));
+    return stored ? (JSON.parse(stored) as PendingOperation[]) : [];
+  } catch (error: unknown) {
+    console.error('❌ Error loading sync queue:', error);
+    return [];
+  }
+};
+
+/**
+ * Persist a user's queued operations
+ * @param userId The user's ID
+ * @param queue The queued operations, oldest first
+ * @returns void
+ */
+export const saveQueue = async (
+  userId: string,
+  queue: PendingOperation[]
+): Promise<void> => {
+  try {
+    if (queue.length === 0) {
+      await AsyncStorage.removeItem(getQueueStorageKey(userId));
+    } else {
+      await AsyncStorage.setItem(
+        getQueueStorageKey(userId),
+        JSON.stringify(queue)
+      );
+    }
+  } catch (error: unknown) {
+    console.error('❌ Error saving sync queue:', error);
+  }
+};
+
+/**
+ * Add an operation to a queue, collapsing it with earlier ones
+ * @description
+ * - setting a day status, progress or checked items replaces any earlier
+ *   value for that date in place, so it stays ahead of anything queued after
+ *   it for that date, like a note that needs the completion to exist
+ * - trashing or restoring a habit replaces an earlier trash or restore
+ * - setting a note replaces any earlier note for that date, and setting a day
+ *   status other than done drops it, since that status clears the date's note
+ * - updates merge into an earlier update, or into a still-pending create,
+ *   including a habit's entry in a batched create
+ * - deleting drops everything else queued for that habit. The delete itself
+ *   is always kept, since an earlier create may already be in flight
+ * @param queue The current queue
+ * @param operation The operation to add
+ * @returns The new queue
+ */
+export const enqueueOperation = (
+  queue: PendingOperation[],
+  operation: SyncOperation
+): PendingOperation[] => {
+  const pending: PendingOperation = {
+    ...operation,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+    queuedAt: new Date().toISOString(),
+  };
+
+  switch (operation.type) {
+    case 'setCompletion':
+    case 'setDayStatus':
+    case 'setProgress':
+    case 'setChecklist':
+    case 'setNote': {
+      const isSameDate = (op: PendingOperation) =>
+        'date' in op &&
+        op.habitId === operation.habitId &&
+        op.date === operation.date;
+      const isReplaced = (op: PendingOperation) =>
+        op.type === operation.type && isSameDate(op);
+      const isCleared = (op: PendingOperation) =>
+        op.type === 'setNote' &&
+        ((operation.type === 'setCompletion' && !operation.completed) ||
+          (operation.type === 'setDayStatus' &&
+            operation.status.type !== 'done')) &&
+        isSameDate(op);
+
+      const index = queue.findIndex(isReplaced);
+      if (index < 0) {
+        return [...queue.filter((op) => !isCleared(op)), pending];
+      }
+      return queue
+        .map((op, i) => (i === index ? pending : op))
+        .filter((op) => op === pending || !(isReplaced(op) || isCleared(op)));
+    }
+
+    case 'updateHabit': {
+      const index = queue.findIndex((op) =>
+        op.type === 'createHabits'
+          ? op.habits.some((habit) => habit.habitId === operation.habitId)
+          : (op.type === 'createHabit' || op.type === 'updateHabit') &&
+            op.habitId === operation.habitId
+      );
+      if (index < 0) return [...queue, pending];
+
+      const next = [...queue];
+      const existing = next[index];
+      if (existing.type === 'createHabit') {
+        next[index] = {
+          ...existing,
+          input: { ...existing.input, ...operation.updates },
+        };
+      } else if (existing.type === 'createHabits') {
+        next[index] = {
+          ...existing,
+          habits: existing.habits.map((habit) =>
+            habit.habitId === operation.habitId
+              ? { ...habit, input: { ...habit.input, ...operation.updates } }
+              : habit
+          ),
+        };
+      } else if (existing.type === 'updateHabit') {
+        next[index] = {
+          ...existing,
+          updates: { ...existing.updates, ...operation.updates },
+        };
+      }
+      return next;
+    }
+
+    case 'setDeleted':
+      return [
+        ...queue.filter(
+          (op) =>
+            !(op.type === 'setDeleted' && op.habitId === operation.habitId)
+        ),
+        pending,
+      ];
+
+    case 'deleteHabit':
+      return [
+        ...queue.flatMap((op): PendingOperation[] => {
+          if (op.type !== 'createHabits') {
+            return op.habitId === operation.habitId ? [] : [op];
+          }
+          const habits = op.habits.filter(
+            (habit) => habit.habitId !== operation.habitId
+          );
+          return habits.length > 0 ? [{ ...op, habits }] : [];
+        }),
+        pending,
+      ];
+
+    default:
+      return [...queue, pending];
+  }
+};
+
+/**
+ * Apply one queued operation to a list of habits
+ */
+const applyOperation = (
+  habits: Habit[],
+  userId: string,
+  operation: SyncOperation
+): Habit[] => {
+  const updateHabit = (habitId: string, update: (habit: Habit) => Habit) =>
+    habits.map((habit) => (habit.id === habitId ? update(habit) : habit));
+
+  switch (operation.type) {
+    case 'createHabit':
+    case 'createHabits': {
+      const created: (NewHabit & { createdAt?: string })[] =
+        operation.type === 'createHabit'
+          ? [
+              {
+                habitId: operation.habitId,
+                input: operation.input,
+                createdAt: operation.createdAt,
+              },
+            ]
+          : operation.habits;
+      // Habits the server already has are kept as they are
+      return [
+        ...habits,
+        ...created
+          .filter(({ habitId }) => !habits.some((h) => h.id === habitId))
+          .map(({ habitId, input, createdAt }) => ({
+            ...buildNewHabit(habitId, userId, input),
+            ...(createdAt && { createdAt }),
+          })),
+      ];
+    }
+    case 'updateHabit':
+      return updateHabit(operation.habitId, (habit) =>
+        applyHabitUpdates(habit, operation.updates)
+      );
+    case 'deleteHabit':
+      return habits.filter((habit) => habit.id !== operation.habitId);
+    case 'setCompletion':
+      return updateHabit(operation.habitId, (habit) =>
+        applyDayStatus(habit, operation.date, {
+          type: operation.completed ? 'done' : 'none',
+        })
+      );
+    case 'setDayStatus':
+      return updateHabit(operation.habitId, (habit) =>
+        applyDayStatus(habit, operation.date, operation.status)
+      );
+    case 'setProgress':
+      return updateHabit(operation.habitId, (habit) =>
+        applyLoggedProgress(habit, operation.date, operation.amount)
+      );
+    case 'setChecklist':
+      return updateHabit(operation.habitId, (habit) =>
+        applyCheckedItems(habit, operation.date, operation.checked)
+      );
+    case 'setNote':
+      return updateHabit(operation.habitId, (habit) =>
+        applyNote(habit, operation.date, operation.note)
+      );
+    case 'setSlip':
+      return updateHabit(operation.habitId, (habit) =>
+        applySlip(habit, operation.slip, operation.logged)
+      );
+    case 'setDeleted':
+      return updateHabit(operation.habitId, (habit) =>
+        applyDeletedAt(habit, operation.deletedAt)
+      );
+  }
+};
+
+/**
+ * Apply queued operations on top of habits loaded from the server
+ * @description A snapshot can be older than the outbox, e.g. while offline or
+ * while an earlier operation is still in flight. Replaying the queue over it
+ * keeps every optimistic change, so a stale snapshot can't briefly undo a
+ * check-off. Every operation sets a value rather than toggling one, so
+ * replaying a change the server already has is harmless.
+ * @param habits The habits from the server
+ * @param userId The user's ID
+ * @param queue The queued operations, oldest first
+ * @returns The habits as they'll be once the queue is synced
+ */
+export const applyPendingOperations = (
+  habits: Habit[],
+  userId: string,
+  queue: PendingOperation[]
+): Habit[] =>
+  queue.length === 0
+    ? habits
+    : sortHabitsByOrder(
+        queue.reduce(
+          (current, operation) => applyOperation(current, userId, operation),
+          habits
+        )
+      );
+
+/**
+ * Send a single operation to the server
+ * @param habitService The habit repository to write to
+ * @param userId The user's ID
+ * @param operation The operation to send
+ * @returns void
+ */
+const executeOperation = async (
+  habitService: HabitRepository,
+  userId: string,
+  operation: SyncOperation
+): Promise<void> => {
+  switch (operation.type) {
+    case 'createHabit':
+      await habitService.createHabit(
+        userId,
+        operation.input,
+        operation.habitId,
+        operation.createdAt
+      );
+      return;
+    case 'createHabits':
+      await habitService.createHabits(userId, operation.habits);
+      return;
+    case 'updateHabit':
+      return habitService.updateHabit(
+        userId,
+        operation.habitId,
+        operation.updates
+      );
+    case 'deleteHabit':
+      return habitService.deleteHabit(userId, operation.habitId);
+    case 'setCompletion':
+      return habitService.setHabitDayStatus(
+        userId,
+        operation.habitId,
+        operation.date,
+        { type: operation.completed ? 'done' : 'none' }
+      );
+    case 'setDayStatus':
+      return habitService.setHabitDayStatus(
+        userId,
+        operation.habitId,
+        operation.date,
+        operation.status
+      );
+    case 'setProgress':
+      return habitService.setHabitProgress(
+        userId,
+        operation.habitId,
+        operation.date,
+        operation.amount
+      );
+    case 'setChecklist':
+      return habitService.setHabitChecklist(
+        userId,
+        operation.habitId,
+        operation.date,
+        operation.checked
+      );
+    case 'setNote':
+      return habitService.setHabitNote(
+        userId,
+        operation.habitId,
+        operation.date,
+        operation.note
+      );
+    case 'setSlip':
+      return habitService.setHabitSlip(
+        userId,
+        operation.habitId,
+        operation.slip,
+        operation.logged
+      );
+    case 'setDeleted':
+      return habitService.setHabitDeleted(
+        userId,
+        operation.habitId,
+        operation.deletedAt
+      );
+  }
+};
+
+/**
+ * Result of replaying one queued operation
+ * - `done`: the server acknowledged it
+ * - `offline`: no acknowledgement in time, keep it and retry later
+ * - `failed`: the server rejected it, retrying won't help
+ */
+export type ReplayResult =
+  | { status: 'done' }
+  | { status: 'offline' }
+  | { status: 'failed'; error: Error };
+
+/**
+ * Replay a queued operation against the server
+ * @description Firestore doesn't reject writes while offline, it holds them
+ * until it reconnects, so a write that isn't acknowledged within a timeout is
+ * treated as offline rather than failed.
+ * @param habitService The habit repository to write to
+ * @param userId The user's ID
+ * @param operation The operation to replay
+ * @returns The outcome of the replay
+ */
+export const replayOperation = async (
+  habitService: HabitRepository,
+  userId: string,
+  operation: SyncOperation
+): Promise<ReplayResult> => {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    return await Promise.race<ReplayResult>([
+      executeOperation(habitService, userId, operation).then(() => ({
+        status: 'done' as const,
+      })),
+      new Promise<ReplayResult>((resolve) => {
+        timeout = setTimeout(
+          () => resolve({ status: 'offline' }),
+          OPERATION_TIMEOUT_MS
+        );
+      }),
+    ]);
+  } catch (error: unknown) {
+    return {
+      status: 'failed',
+      error: error instanceof Error ? error : new Error('Failed to sync'),
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
@@ -10,6 +10,7 @@ export interface User {
   emailVerified: boolean;
   displayName?: string | null;
   photoURL?: string | null;
+  isLocal?: boolean;
 }
 
 /**
@@ -20,9 +21,11 @@ export interface AuthContextType {
   user: User | null;
   loading: boolean;
   error: string | null;
+  accountsAvailable: boolean;
   signUp: (email: string, password: string) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
+  startLocalMode: () => Promise<void>;
   clearError: () => void;
 }
 
@@ -35,6 +38,45 @@ export interface AuthError {
   message: string;
 }
 
+/**
+ * App settings
+ * @description Device-level preferences. `timeZone` is an IANA zone name used
+ * for completion dates (device zone when unset) and `dayRolloverHour` is the
+ * hour a new day starts, so night owls can check off yesterday after midnight.
+ * `localMode` keeps the app signed in to the on-device profile. `tags` are
+ * tags created in the tag manager, kept even while no habit uses them, and
+ * `tagFilter`, `groupByTag` and `habitSort` are how HomeScreen last showed
+ * the habits.
+ */
+export interface AppSettings {
+  timeZone?: string;
+  dayRolloverHour: number;
+  localMode: boolean;
+  tags: string[];
+  tagFilter: string[];
+  groupByTag: boolean;
+  habitSort: HabitSortMode;
+  // Days a deleted habit stays in the trash before it's purged
+  trashRetentionDays: number;
+}
+
+/**
+ * Habit sort mode
+ * @description How HomeScreen orders habits. `manual` is the user's own
+ * drag-and-drop order.
+ */
+export type HabitSortMode = 'manual' | 'alphabetical' | 'dueFirst' | 'streak';
+
+/**
+ * Settings context
+ * @description Interface for the useSettings hook.
+ */
+export interface SettingsContextType {
+  settings: AppSettings;
+  loading: boolean;
+  updateSettings: (updates: Partial<AppSettings>) => Promise<void>;
+}
+
 /**
  *  Navigation types
  * @description Interface for the AuthStackParamList and AppStackParamList.
@@ -49,25 +91,191 @@ export type AppStackParamList = {
   Home: undefined;
   HabitDetail: { habitId: string };
   AddHabit: undefined;
+  EditHabit: { habitId: string };
+  Journal: undefined;
+  Tags: undefined;
+  Templates: undefined;
+  Routine: { routineId: string };
+  Archive: undefined;
+  Trash: undefined;
+  Settings: undefined;
 };
 
 export type RootStackParamList = AuthStackParamList & AppStackParamList;
 
+/**
+ * Habit frequency
+ * @description The legacy coarse frequency of a habit. Still stored on every
+ * habit so older clients can read it, but `schedule` takes precedence.
+ */
+export type HabitFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Habit schedule
+ * @description When a habit is expected to be done.
+ * - `daily`, `weekly`, `monthly`: once per day, week (Mon-Sun) or month
+ * - `weekdays`: on specific days of the week (0 = Sunday ... 6 = Saturday)
+ * - `timesPerWeek`: a number of times anywhere in the week
+ * - `everyNDays`: once in every window of `interval` days, counted from `startDate`
+ */
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekly' }
+  | { type: 'monthly' }
+  | { type: 'weekdays'; days: number[] }
+  | { type: 'timesPerWeek'; count: number }
+  | { type: 'everyNDays'; interval: number; startDate: string };
+
+/**
+ * Habit target
+ * @description A numeric daily goal for quantitative habits, e.g. 8 glasses
+ * of water. `step` is how much each increment adds (defaults to 1).
+ */
+export interface HabitTarget {
+  value: number;
+  unit: string;
+  step?: number;
+}
+
+/**
+ * Habit pause
+ * @description An inclusive date range when a habit is on hold, e.g. while
+ * sick or travelling. Paused dates are neutral: they neither count towards
+ * nor break a streak, and don't lower the completion rate.
+ */
+export interface HabitPause {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Skip reason
+ * @description Why a day was skipped on purpose rather than missed.
+ */
+export type SkipReason = 'rest' | 'injury' | 'sick' | 'holiday' | 'other';
+
+/**
+ * Habit skip
+ * @description A day excused with a reason and an optional note. Skipped days
+ * are neutral like paused ones, they're never counted as a miss.
+ */
+export interface HabitSkip {
+  reason: SkipReason;
+  note?: string;
+}
+
+/**
+ * Day status
+ * @description The state of a habit on one date: done, skipped with a
+ * reason, or nothing recorded (a miss once the day is over).
+ */
+export type DayStatus =
+  | { type: 'done' }
+  | { type: 'skipped'; reason: SkipReason; note?: string }
+  | { type: 'none' };
+
+/**
+ * Habit note
+ * @description An optional note and 1-5 rating for a completed day, e.g.
+ * "ran 5k, felt great". Notes belong to the day's completion, so they're
+ * removed when the day is unchecked or skipped.
+ */
+export interface HabitNote {
+  note?: string;
+  rating?: number;
+}
+
+/**
+ * Habit kind
+ * @description Whether the user is building a habit (checking it off) or
+ * breaking one (logging slips, where every day without one is a clean day).
+ */
+export type HabitKind = 'build' | 'break';
+
+/**
+ * Habit slip
+ * @description A logged lapse of a habit being broken. A day can have more
+ * than one, so each has its own ID.
+ */
+export interface HabitSlip {
+  id: string;
+  date: string;
+  note?: string;
+}
+
+/**
+ * Checklist item
+ * @description One step of a habit's checklist, e.g. "Clear the inbox" in an
+ * evening shutdown. Items have their own ID so they can be renamed or
+ * reordered without losing what was checked.
+ */
+export interface ChecklistItem {
+  id: string;
+  title: string;
+}
+
+/**
+ * Habit challenge
+ * @description A time-limited goal for a habit, e.g. 30 completions between
+ * two dates. Dates are inclusive date keys; for habits being broken, every
+ * clean day counts as a completion.
+ */
+export interface HabitChallenge {
+  startDate: string;
+  endDate: string;
+  targetCompletions: number;
+}
+
+/**
+ * Challenge status
+ * @description Where a challenge stands on a date. It's only succeeded or
+ * failed once its end date has passed.
+ */
+export type ChallengeStatus = 'upcoming' | 'active' | 'succeeded' | 'failed';
+
 /**
  * Habit Model
  * @description A habit is a daily, weekly, or monthly activity that the user wants to track. What the app uses.
+ * `frozenDates` are missed periods covered by a streak freeze, neutral like pauses.
+ * Habits being broken track `slips` instead of completions. `sortOrder` is the
+ * habit's position in the user's manual order, unset until it's first moved.
+ * Habits with a `challenge` are only due between its start and end dates.
+ * `followsHabitId` stacks the habit after another one, so chained habits form
+ * an ordered routine. Habits with a `checklist` are done on a date once
+ * enough of its items are checked in `checkedItems` (all of them, unless
+ * `checklistThreshold` asks for fewer).
  */
 export interface Habit {
   id: string;
   userId: string;
   title: string;
   description?: string;
-  frequency: 'daily' | 'weekly' | 'monthly';
+  kind: HabitKind;
+  frequency: HabitFrequency;
+  schedule: HabitSchedule;
   createdAt: string | Date;
   updatedAt: string | Date;
   completedDates: string[];
+  target?: HabitTarget;
+  progress: Record<string, number>;
   color?: string;
   icon?: string;
+  tags: string[];
+  sortOrder?: number;
+  pauses: HabitPause[];
+  frozenDates: string[];
+  skips: Record<string, HabitSkip>;
+  notes: Record<string, HabitNote>;
+  slips: HabitSlip[];
+  challenge?: HabitChallenge;
+  followsHabitId?: string;
+  checklist: ChecklistItem[];
+  checklistThreshold?: number;
+  checkedItems: Record<string, string[]>;
+  // When the habit was archived, as an ISO timestamp
+  archivedAt?: string;
+  // When the habit was moved to the trash, as an ISO timestamp
+  deletedAt?: string;
 }
 
 /**
@@ -77,40 +285,354 @@ export interface Habit {
 export interface HabitInput {
   title: string;
   description?: string;
-  frequency: 'daily' | 'weekly' | 'monthly';
+  kind?: HabitKind;
+  frequency: HabitFrequency;
+  schedule?: HabitSchedule;
+  target?: HabitTarget;
   color?: string;
   icon?: string;
+  tags?: string[];
+  sortOrder?: number;
+  pauses?: HabitPause[];
+  frozenDates?: string[];
+  // null removes the habit's challenge
+  challenge?: HabitChallenge | null;
+  // null unstacks the habit
+  followsHabitId?: string | null;
+  checklist?: ChecklistItem[];
+  // null requires every checklist item again
+  checklistThreshold?: number | null;
+  // null unarchives the habit
+  archivedAt?: string | null;
+}
+
+/**
+ * Habit template
+ * @description A ready-made habit from the built-in catalog.
+ */
+export interface HabitTemplate
+  extends Pick<
+    HabitInput,
+    | 'title'
+    | 'description'
+    | 'kind'
+    | 'frequency'
+    | 'schedule'
+    | 'target'
+    | 'color'
+    | 'icon'
+    | 'tags'
+  > {
+  id: string;
+}
+
+/**
+ * Habit template pack
+ * @description A themed group of templates that can be added in one go.
+ */
+export interface HabitTemplatePack {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  templates: HabitTemplate[];
+}
+
+/**
+ * New habit
+ * @description A habit to create in a batch, with its pre-generated ID.
+ */
+export interface NewHabit {
+  habitId: string;
+  input: HabitInput;
 }
 
 /**
  * Firestore document data (how it's stored in Firebase)
  * @description The data that is stored in Firebase with timestamps.
  * Timestamps can be Firestore Timestamp objects or ISO strings.
+ * `completedDates` and `progress` are legacy fields: completions now live in
+ * the habit's `completions` subcollection and these are removed on migration.
+ * `slips` is the slip history of a habit being broken, kept on the document.
  */
 export interface HabitDocument {
   userId: string;
   title: string;
   description?: string;
-  frequency: 'daily' | 'weekly' | 'monthly';
+  kind?: HabitKind;
+  frequency: HabitFrequency;
+  schedule?: HabitSchedule;
   createdAt: Timestamp | string;
   updatedAt: Timestamp | string;
-  completedDates: string[];
+  completedDates?: string[];
+  target?: HabitTarget;
+  progress?: Record<string, number>;
   color?: string;
   icon?: string;
+  tags?: string[];
+  sortOrder?: number;
+  pauses?: HabitPause[];
+  frozenDates?: string[];
+  slips?: HabitSlip[];
+  challenge?: HabitChallenge;
+  followsHabitId?: string;
+  checklist?: ChecklistItem[];
+  checklistThreshold?: number;
+  archivedAt?: string;
+  deletedAt?: string;
+  // The schema version the document was written in, missing before versioning
+  schemaVersion?: number;
+}
+
+/**
+ * Migrated habit document
+ * @description A habit document upgraded to the current schema version, so
+ * the fields older versions could be missing are always set. Slips can still
+ * be missing, since new habits are created without them.
+ */
+export type MigratedHabitDocument = HabitDocument &
+  Required<
+    Pick<
+      HabitDocument,
+      | 'schemaVersion'
+      | 'description'
+      | 'kind'
+      | 'schedule'
+      | 'tags'
+      | 'pauses'
+      | 'frozenDates'
+      | 'checklist'
+    >
+  >;
+
+/**
+ * Migration status document
+ * @description Stored at `users/{userId}/meta/migrations`. A run is marked
+ * `running` until every habit is upgraded to `schemaVersion`, so a run that
+ * was interrupted is picked up again on the next sign in.
+ */
+export interface MigrationStatusDocument {
+  schemaVersion: number;
+  state: 'running' | 'complete';
+  startedAt: Timestamp | string;
+  completedAt?: Timestamp | string;
+  migratedHabits: number;
+}
+
+/**
+ * Completion document (how a single completion is stored in Firebase)
+ * @description One document per habit per date in
+ * `users/{userId}/habits/{habitId}/completions/{date}`, so each check-in is an
+ * independent, idempotent write. `amount` is set for quantitative habits,
+ * `skip` marks the day as skipped instead of completed, `checked` lists the
+ * checklist items ticked off that day, and `note` and `rating` are the
+ * completion's journal entry.
+ */
+export interface CompletionDocument {
+  date: string;
+  amount?: number;
+  skip?: HabitSkip;
+  checked?: string[];
+  note?: string;
+  rating?: number;
+  updatedAt: Timestamp | string;
+}
+
+/**
+ * Habit streak
+ * @description Streak summary for a habit. Periods follow the habit's
+ * schedule (a day, a week, a month, a scheduled weekday or an N-day window)
+ * and are identified by their first day. For habits being broken, `current`
+ * and `longest` are clean runs in days since a slip.
+ */
+export interface HabitStreak {
+  current: number;
+  longest: number;
+  lastCompletedPeriod: string | null;
 }
 
+/**
+ * Habit stats
+ * @description Lifetime stats for a habit. The completion rate is the share
+ * of periods since the habit started that were satisfied; the current period
+ * only counts once it's satisfied.
+ */
+export interface HabitStats {
+  totalCompletions: number;
+  satisfiedPeriods: number;
+  totalPeriods: number;
+  completionRate: number;
+}
+
+/**
+ * Habit repository
+ * @description Storage backend for habits. Firestore is the default, and
+ * there is an in-memory implementation for running without Firebase.
+ * Implementations throw Errors with user-friendly messages.
+ */
+export interface HabitRepository {
+  generateHabitId: (userId: string) => string;
+  createHabit: (
+    userId: string,
+    input: HabitInput,
+    habitId?: string,
+    createdAt?: string
+  ) => Promise<Habit>;
+  createHabits: (userId: string, habits: NewHabit[]) => Promise<Habit[]>;
+  getHabits: (userId: string) => Promise<Habit[]>;
+  updateHabit: (
+    userId: string,
+    habitId: string,
+    updates: Partial<HabitInput>
+  ) => Promise<void>;
+  deleteHabit: (userId: string, habitId: string) => Promise<void>;
+  setHabitDayStatus: (
+    userId: string,
+    habitId: string,
+    date: string,
+    status: DayStatus
+  ) => Promise<void>;
+  setHabitProgress: (
+    userId: string,
+    habitId: string,
+    date: string,
+    amount: number
+  ) => Promise<void>;
+  setHabitChecklist: (
+    userId: string,
+    habitId: string,
+    date: string,
+    checked: string[]
+  ) => Promise<void>;
+  setHabitNote: (
+    userId: string,
+    habitId: string,
+    date: string,
+    note: HabitNote | null
+  ) => Promise<void>;
+  setHabitSlip: (
+    userId: string,
+    habitId: string,
+    slip: HabitSlip,
+    logged: boolean
+  ) => Promise<void>;
+  setHabitDeleted: (
+    userId: string,
+    habitId: string,
+    deletedAt: string | null
+  ) => Promise<void>;
+  subscribeToHabits: (
+    userId: string,
+    onUpdate: (habits: Habit[], metadata: HabitsSnapshotMetadata) => void,
+    onError?: (error: Error) => void
+  ) => () => void;
+  migrateHabits: (userId: string) => Promise<number>;
+}
+
+/**
+ * Habits snapshot metadata
+ * @description Where a subscription update came from. Cached data is shown
+ * while offline and may be out of date.
+ */
+export interface HabitsSnapshotMetadata {
+  fromCache: boolean;
+}
+
+/**
+ * Subscription status
+ * @description The state of the real-time habits subscription.
+ * - `connecting`: waiting for the first update
+ * - `live`: up to date with the server
+ * - `offline`: showing cached data until the server is reachable
+ * - `errored`: the subscription failed and will be retried
+ */
+export type SubscriptionStatus = 'connecting' | 'live' | 'offline' | 'errored';
+
+/**
+ * Sync operation
+ * @description A habit change waiting to be written to the server. Every
+ * operation is idempotent, so replaying one that already reached the server
+ * is harmless. `setCompletion` is only queued by older versions of the app
+ * and is still replayed from existing outboxes. `createdAt` on a create keeps
+ * the creation date of a habit being imported.
+ */
+export type SyncOperation =
+  | {
+      type: 'createHabit';
+      habitId: string;
+      input: HabitInput;
+      createdAt?: string;
+    }
+  | { type: 'createHabits'; habits: NewHabit[] }
+  | { type: 'updateHabit'; habitId: string; updates: Partial<HabitInput> }
+  | { type: 'deleteHabit'; habitId: string }
+  | {
+      type: 'setCompletion';
+      habitId: string;
+      date: string;
+      completed: boolean;
+    }
+  | { type: 'setDayStatus'; habitId: string; date: string; status: DayStatus }
+  | { type: 'setProgress'; habitId: string; date: string; amount: number }
+  | { type: 'setChecklist'; habitId: string; date: string; checked: string[] }
+  | {
+      type: 'setNote';
+      habitId: string;
+      date: string;
+      note: HabitNote | null;
+    }
+  | { type: 'setSlip'; habitId: string; slip: HabitSlip; logged: boolean }
+  | { type: 'setDeleted'; habitId: string; deletedAt: string | null };
+
+/**
+ * Pending operation
+ * @description A queued sync operation as persisted in the outbox.
+ */
+export type PendingOperation = SyncOperation & {
+  id: string;
+  queuedAt: string;
+};
+
 /**
  * Habits context type
  * @description Interface for the useHabits hook..
  */
 export interface HabitsContextType {
   habits: Habit[];
+  archivedHabits: Habit[];
+  trashedHabits: Habit[];
+  today: string;
+  streaks: Record<string, HabitStreak>;
   loading: boolean;
   error: string | null;
+  pendingSyncCount: number;
+  subscriptionStatus: SubscriptionStatus;
+  fromCache: boolean;
   createHabit: (input: HabitInput) => Promise<Habit>;
+  createHabits: (inputs: HabitInput[]) => Promise<Habit[]>;
   updateHabit: (id: string, updates: Partial<HabitInput>) => Promise<void>;
   deleteHabit: (id: string) => Promise<void>;
-  toggleCompletion: (id: string, date: string) => Promise<void>;
+  archiveHabit: (id: string) => Promise<void>;
+  unarchiveHabit: (id: string) => Promise<void>;
+  restoreHabit: (id: string) => Promise<void>;
+  deleteHabitPermanently: (id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  moveHabit: (orderedIds: string[], from: number, to: number) => Promise<void>;
+  setDayStatus: (id: string, date: string, status: DayStatus) => Promise<void>;
+  incrementProgress: (id: string, date: string) => Promise<void>;
+  decrementProgress: (id: string, date: string) => Promise<void>;
+  toggleChecklistItem: (
+    id: string,
+    date: string,
+    itemId: string
+  ) => Promise<void>;
+  setNote: (id: string, date: string, note: HabitNote | null) => Promise<void>;
+  logSlip: (id: string, date: string, note?: string) => Promise<void>;
+  removeSlip: (id: string, slipId: string) => Promise<void>;
+  pauseHabit: (id: string, pause: HabitPause) => Promise<void>;
+  pauseAllHabits: (pause: HabitPause) => Promise<void>;
+  resumeHabit: (id: string) => Promise<void>;
+  freezeStreak: (id: string) => Promise<void>;
   refreshHabits: () => Promise<void>;
   clearError: () => void;
 }
@@ -0,0 +1,43 @@
+import { Habit } from '../types';
+import { DateKeyOptions, getDateKey } from './dateKeys';
+
+/**
+ * Archive
+ * @description Pure helpers for archived habits. Archiving a finished or
+ * retired habit takes it off the daily list, so it's never due and doesn't
+ * count towards today's progress, while its history and lifetime stats are
+ * kept for the Archive as they were on the day it was archived.
+ */
+
+/**
+ * Check whether a habit is archived
+ */
+export const isArchived = (habit: Pick<Habit, 'archivedAt'>): boolean =>
+  !!habit.archivedAt;
+
+/**
+ * Get the archived habits, most recently archived first
+ */
+export const getArchivedHabits = (habits: Habit[]): Habit[] =>
+  habits
+    .filter(isArchived)
+    .sort((a, b) => (b.archivedAt ?? '').localeCompare(a.archivedAt ?? ''));
+
+/**
+ * Get the last day a habit's stats and streaks count up to
+ * @description An archived habit's history is frozen on the day it was
+ * archived, so it doesn't keep collecting missed days afterwards.
+ * @param habit The habit
+ * @param today Today's date key
+ * @param options The timezone and rollover hour `today` was produced with
+ * @returns The day it was archived, or today
+ */
+export const getStatsEndKey = (
+  habit: Pick<Habit, 'archivedAt'>,
+  today: string,
+  options?: DateKeyOptions
+): string => {
+  if (!habit.archivedAt) return today;
+  const archivedKey = getDateKey(new Date(habit.archivedAt), options);
+  return archivedKey < today ? archivedKey : today;
+};
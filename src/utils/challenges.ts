@@ -0,0 +1,201 @@
+import { ChallengeStatus, Habit, HabitChallenge } from '../types';
+import { addDays, diffInDays, isValidDateKey } from './dateKeys';
+import { isBreakingHabit } from './slips';
+
+/**
+ * Challenges
+ * @description Pure helpers for time-limited challenges, e.g. "30 days of
+ * running". Progress counts completions between the challenge's start and end
+ * dates, or clean days for habits being broken. A challenge is decided once
+ * its end date has passed: succeeded if the target was reached, failed if not.
+ */
+
+export const DEFAULT_CHALLENGE_DAYS = 30;
+
+/**
+ * A challenge's progress on a date
+ */
+export interface ChallengeProgress {
+  status: ChallengeStatus;
+  completions: number;
+  target: number;
+  // Completions still needed to reach the target
+  remaining: number;
+  // Days left including the date itself, 0 once the challenge has ended
+  daysLeft: number;
+  // Days until the challenge starts, 0 once it has started
+  daysUntilStart: number;
+}
+
+/**
+ * Count the days a challenge runs for
+ */
+export const getChallengeLength = (challenge: HabitChallenge): number =>
+  diffInDays(challenge.startDate, challenge.endDate) + 1;
+
+/**
+ * Build a challenge starting on a date
+ * @param startDate The first day of the challenge
+ * @param days How many days it runs for
+ * @returns A challenge to complete the habit every day
+ */
+export const createChallenge = (
+  startDate: string,
+  days: number = DEFAULT_CHALLENGE_DAYS
+): HabitChallenge => ({
+  startDate,
+  endDate: addDays(startDate, days - 1),
+  targetCompletions: days,
+});
+
+/**
+ * Validate a challenge
+ * @param challenge The challenge
+ * @returns An error message, or null if the challenge is valid
+ */
+export const validateChallenge = (challenge: HabitChallenge): string | null => {
+  if (
+    !isValidDateKey(challenge.startDate) ||
+    !isValidDateKey(challenge.endDate)
+  ) {
+    return 'Challenge dates must be in YYYY-MM-DD format.';
+  }
+  if (challenge.endDate < challenge.startDate) {
+    return 'The challenge must end on or after the day it starts.';
+  }
+  if (
+    !Number.isInteger(challenge.targetCompletions) ||
+    challenge.targetCompletions < 1
+  ) {
+    return 'The challenge goal must be a whole number of at least 1.';
+  }
+  const length = getChallengeLength(challenge);
+  if (challenge.targetCompletions > length) {
+    return `The challenge goal can't be more than its ${length} days.`;
+  }
+  return null;
+};
+
+/**
+ * Check whether a date falls within a habit's challenge
+ * @param habit The habit
+ * @param dateKey The date key
+ * @returns Whether the date is in the challenge, always true without one
+ */
+export const isInChallenge = (
+  habit: Pick<Habit, 'challenge'>,
+  dateKey: string
+): boolean =>
+  !habit.challenge ||
+  (habit.challenge.startDate <= dateKey && dateKey <= habit.challenge.endDate);
+
+/**
+ * Count the completions that count towards a habit's challenge
+ * @param habit The habit with a challenge
+ * @param today Today's date key; later days aren't counted yet
+ * @returns Completed days in the challenge, or clean days for habits being
+ * broken
+ */
+const countChallengeCompletions = (
+  habit: Pick<Habit, 'kind' | 'completedDates' | 'slips'>,
+  challenge: HabitChallenge,
+  today: string
+): number => {
+  if (isBreakingHabit(habit)) {
+    const lastDay = challenge.endDate < today ? challenge.endDate : today;
+    if (lastDay < challenge.startDate) return 0;
+
+    const slipDays = new Set(
+      habit.slips
+        .map((slip) => slip.date)
+        .filter((date) => challenge.startDate <= date && date <= lastDay)
+    );
+    return diffInDays(challenge.startDate, lastDay) + 1 - slipDays.size;
+  }
+
+  return habit.completedDates.filter(
+    (date) => challenge.startDate <= date && date <= challenge.endDate
+  ).length;
+};
+
+/**
+ * Get a habit's challenge progress
+ * @param habit The habit
+ * @param today Today's date key
+ * @returns The progress, or null if the habit has no challenge
+ */
+export const getChallengeProgress = (
+  habit: Pick<Habit, 'kind' | 'completedDates' | 'slips' | 'challenge'>,
+  today: string
+): ChallengeProgress | null => {
+  const { challenge } = habit;
+  if (!challenge) return null;
+
+  const completions = countChallengeCompletions(habit, challenge, today);
+  const target = challenge.targetCompletions;
+
+  let status: ChallengeStatus;
+  if (today < challenge.startDate) {
+    status = 'upcoming';
+  } else if (today <= challenge.endDate) {
+    status = 'active';
+  } else {
+    status = completions >= target ? 'succeeded' : 'failed';
+  }
+
+  return {
+    status,
+    completions,
+    target,
+    remaining: Math.max(0, target - completions),
+    daysLeft:
+      status === 'upcoming'
+        ? getChallengeLength(challenge)
+        : Math.max(0, diffInDays(today, challenge.endDate) + 1),
+    daysUntilStart: Math.max(0, diffInDays(today, challenge.startDate)),
+  };
+};
+
+/**
+ * Check whether a habit's challenge has ended
+ */
+export const isChallengeFinished = (
+  habit: Pick<Habit, 'challenge'>,
+  today: string
+): boolean => !!habit.challenge && habit.challenge.endDate < today;
+
+/**
+ * Describe a challenge's progress, e.g. "18/30 days, 12 remaining"
+ * @param progress The challenge's progress
+ * @returns A short human readable label
+ */
+export const formatChallengeProgress = (
+  progress: ChallengeProgress
+): string => {
+  const count = `${progress.completions}/${progress.target} days`;
+  switch (progress.status) {
+    case 'upcoming':
+      return `Starts in ${progress.daysUntilStart} day${progress.daysUntilStart === 1 ? '' : 's'}`;
+    case 'succeeded':
+      return `🏆 Challenge complete · ${count}`;
+    case 'failed':
+      return `Challenge ended · ${count}`;
+    default:
+      return progress.remaining === 0
+        ? `🎯 ${count}, goal reached`
+        : `${count}, ${progress.remaining} remaining`;
+  }
+};
+
+/**
+ * Describe how long a challenge has left, e.g. "5 days left"
+ * @param progress The challenge's progress
+ * @returns A countdown label, or null once the challenge has ended
+ */
+export const formatChallengeCountdown = (
+  progress: ChallengeProgress
+): string | null => {
+  if (progress.status !== 'active') return null;
+  if (progress.daysLeft === 1) return 'Last day';
+  return `${progress.daysLeft} days left`;
+};
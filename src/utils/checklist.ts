@@ -0,0 +1,142 @@
+import { ChecklistItem, Habit } from '../types';
+
+/**
+ * Checklist
+ * @description Pure helpers for habits made of smaller steps, e.g. an
+ * evening shutdown. The items checked on each date live in `checkedItems`,
+ * and the habit is done on a date once enough of them are checked. Dates
+ * without checked items keep their plain completion, so adding a checklist
+ * to an existing habit doesn't change its history.
+ */
+
+export const CHECKLIST_MAX_ITEMS = 12;
+export const CHECKLIST_ITEM_MAX_LENGTH = 60;
+
+type ChecklistHabit = Pick<
+  Habit,
+  'checklist' | 'checklistThreshold' | 'checkedItems' | 'completedDates'
+>;
+
+/**
+ * Check whether a habit has a checklist
+ */
+export const hasChecklist = (habit: Pick<Habit, 'checklist'>): boolean =>
+  habit.checklist.length > 0;
+
+/**
+ * Create a checklist item
+ * @param title The item as typed by the user
+ * @returns The new item with a unique ID
+ */
+export const createChecklistItem = (title: string): ChecklistItem => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  title: title.trim(),
+});
+
+/**
+ * Validate a checklist
+ * @param checklist The items
+ * @param threshold How many items complete the habit, undefined for all
+ * @returns An error message, or null if the checklist is valid
+ */
+export const validateChecklist = (
+  checklist: ChecklistItem[],
+  threshold?: number
+): string | null => {
+  if (checklist.length > CHECKLIST_MAX_ITEMS) {
+    return `A checklist can have at most ${CHECKLIST_MAX_ITEMS} steps.`;
+  }
+  if (checklist.some((item) => !item.title.trim())) {
+    return 'Checklist steps need a name.';
+  }
+  if (
+    checklist.some(
+      (item) => item.title.trim().length > CHECKLIST_ITEM_MAX_LENGTH
+    )
+  ) {
+    return `Checklist steps must be ${CHECKLIST_ITEM_MAX_LENGTH} characters or less.`;
+  }
+  if (
+    threshold !== undefined &&
+    (!Number.isInteger(threshold) ||
+      threshold < 1 ||
+      threshold > checklist.length)
+  ) {
+    return `Steps needed must be between 1 and ${checklist.length}.`;
+  }
+  return null;
+};
+
+/**
+ * Get how many checklist items complete a habit
+ */
+export const getRequiredItems = (
+  habit: Pick<Habit, 'checklist' | 'checklistThreshold'>
+): number =>
+  Math.min(
+    habit.checklistThreshold ?? habit.checklist.length,
+    habit.checklist.length
+  );
+
+/**
+ * Get the checklist items checked on a date
+ * @param habit The habit
+ * @param date The date key
+ * @returns The IDs of checked items that are still on the checklist
+ */
+export const getCheckedItems = (
+  habit: Pick<Habit, 'checklist' | 'checkedItems'>,
+  date: string
+): string[] =>
+  (habit.checkedItems[date] ?? []).filter((id) =>
+    habit.checklist.some((item) => item.id === id)
+  );
+
+/**
+ * Check whether enough items are checked to complete a habit
+ * @description Items checked before the checklist was removed still count,
+ * so the day stays done.
+ * @param habit The habit
+ * @param checked The IDs of the checked items
+ * @returns Whether the habit is done
+ */
+export const isChecklistComplete = (
+  habit: Pick<Habit, 'checklist' | 'checklistThreshold'>,
+  checked: string[]
+): boolean => {
+  if (!hasChecklist(habit)) return checked.length > 0;
+
+  const count = checked.filter((id) =>
+    habit.checklist.some((item) => item.id === id)
+  ).length;
+  return count >= getRequiredItems(habit);
+};
+
+/**
+ * Get the dates a habit is done on, counting checked items
+ * @param habit The habit
+ * @returns Dates with enough items checked, plus plain completions on dates
+ * without any, sorted ascending
+ */
+export const getCompletedDatesFromChecklist = (
+  habit: ChecklistHabit
+): string[] => {
+  const checkedDates = Object.keys(habit.checkedItems);
+  return [
+    ...habit.completedDates.filter((date) => !(date in habit.checkedItems)),
+    ...checkedDates.filter((date) =>
+      isChecklistComplete(habit, habit.checkedItems[date])
+    ),
+  ].sort();
+};
+
+/**
+ * Check or uncheck an item
+ * @param checked The IDs of the checked items
+ * @param itemId The item to toggle
+ * @returns The new checked IDs
+ */
+export const toggleItem = (checked: string[], itemId: string): string[] =>
+  checked.includes(itemId)
+    ? checked.filter((id) => id !== itemId)
+    : [...checked, itemId];
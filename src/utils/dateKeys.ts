@@ -0,0 +1,193 @@
+/**
+ * Date Keys
+ * @description Helpers for working with `YYYY-MM-DD` date keys, the format
+ * used for habit completion dates. All arithmetic is done in UTC on the key
+ * itself so results never shift with the device's timezone.
+ */
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Options for turning a moment in time into a date key
+ * @description `timeZone` is an IANA zone name (device zone when omitted) and
+ * `rolloverHour` is the hour the day starts, so with 3 a moment at 1am still
+ * belongs to the previous day.
+ */
+export interface DateKeyOptions {
+  timeZone?: string;
+  rolloverHour?: number;
+}
+
+/**
+ * Pad a number to two digits
+ */
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Format a UTC date as a date key
+ * @param date The date to format (its UTC fields are used)
+ * @returns The date key
+ */
+const formatUTCDateKey = (date: Date): string =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+/**
+ * Convert a date to a date key using the device's local calendar
+ * @param date The date to convert
+ * @returns The date key in YYYY-MM-DD format
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Check whether an IANA timezone name is supported on this device
+ * @param timeZone The timezone name, e.g. "America/New_York"
+ * @returns Whether the timezone can be used
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone }).format(new Date());
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Convert a moment in time to the user's date key
+ * @description Respects the configured timezone and day rollover hour. Use
+ * this (not `toISOString`, which is UTC) whenever a completion date is
+ * produced from the clock.
+ * @param date The moment to convert
+ * @param options The timezone and rollover hour
+ * @returns The date key in YYYY-MM-DD format
+ */
+export const getDateKey = (
+  date: Date,
+  { timeZone, rolloverHour = 0 }: DateKeyOptions = {}
+): string => {
+  // Shift the moment back so hours before the rollover land on the day before
+  const shifted = new Date(date.getTime() - rolloverHour * MS_PER_HOUR);
+
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    return toDateKey(shifted);
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(shifted);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/**
+ * Get today's date key
+ * @param options The timezone and rollover hour
+ * @returns Today's date key in YYYY-MM-DD format
+ */
+export const getTodayKey = (options?: DateKeyOptions): string =>
+  getDateKey(new Date(), options);
+
+/**
+ * Check whether a string is a valid date key
+ * @param key The string to check
+ * @returns Whether it is a real calendar date in YYYY-MM-DD format
+ */
+export const isValidDateKey = (key: string): boolean =>
+  DATE_KEY_PATTERN.test(key) && formatUTCDateKey(parseDateKey(key)) === key;
+
+/**
+ * Make sure a completion date is a YYYY-MM-DD date key
+ * @param key The date to check
+ * @returns void
+ */
+export const assertDateKey = (key: string): void => {
+  if (!isValidDateKey(key)) {
+    throw new Error(`Invalid date "${key}". Expected YYYY-MM-DD.`);
+  }
+};
+
+/**
+ * Parse a date key into a Date at midnight UTC
+ * @param key The date key in YYYY-MM-DD format
+ * @returns The parsed date
+ */
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+/**
+ * Add (or subtract) days to a date key
+ * @param key The date key
+ * @param days The number of days to add, negative to subtract
+ * @returns The resulting date key
+ */
+export const addDays = (key: string, days: number): string => {
+  const date = parseDateKey(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatUTCDateKey(date);
+};
+
+/**
+ * Add (or subtract) months to a date key, clamping to the end of the month
+ * @param key The date key
+ * @param months The number of months to add, negative to subtract
+ * @returns The resulting date key
+ */
+export const addMonths = (key: string, months: number): string => {
+  const date = parseDateKey(key);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const daysInMonth = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  date.setUTCDate(Math.min(day, daysInMonth));
+  return formatUTCDateKey(date);
+};
+
+/**
+ * Number of whole days from one date key to another
+ * @param from The starting date key
+ * @param to The ending date key
+ * @returns The difference in days (negative if `to` is before `from`)
+ */
+export const diffInDays = (from: string, to: string): number =>
+  Math.round(
+    (parseDateKey(to).getTime() - parseDateKey(from).getTime()) / MS_PER_DAY
+  );
+
+/**
+ * Day of the week for a date key
+ * @param key The date key
+ * @returns 0 (Sunday) through 6 (Saturday)
+ */
+export const getDayOfWeek = (key: string): number =>
+  parseDateKey(key).getUTCDay();
+
+/**
+ * Get the Monday that starts the week containing a date key
+ * @param key The date key
+ * @returns The date key of the week's Monday
+ */
+export const getWeekStartKey = (key: string): string => {
+  const offset = (getDayOfWeek(key) + 6) % 7;
+  return addDays(key, -offset);
+};
+
+/**
+ * Get the first day of the month containing a date key
+ * @param key The date key
+ * @returns The date key of the month's first day
+ */
+export const getMonthStartKey = (key: string): string =>
+  `${key.slice(0, 7)}-01`;
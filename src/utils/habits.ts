@@ -0,0 +1,408 @@
+import { DayStatus, Habit, HabitInput } from '../types';
+import {
+  getHabitSchedule,
+  getLegacyFrequency,
+  normalizeScheduleInput,
+  validateSchedule,
+} from './schedule';
+import {
+  applyProgress,
+  getCompletedDatesFromProgress,
+  isQuantitative,
+  validateTarget,
+} from './progress';
+import { validateChallenge } from './challenges';
+import { getCompletedDatesFromChecklist, validateChecklist } from './checklist';
+import { validatePause } from './pauses';
+import { uniqueTags, validateTags } from './tags';
+
+/**
+ * Habits
+ * @description Pure helpers for building and updating Habit objects, shared
+ * by every habit repository and by optimistic updates in useHabits.
+ */
+
+export const HABIT_TITLE_MAX_LENGTH = 60;
+export const HABIT_DESCRIPTION_MAX_LENGTH = 200;
+
+/**
+ * A check on habit input, and the fields it depends on
+ */
+interface HabitInputCheck {
+  fields: (keyof HabitInput)[];
+  validate: (input: HabitInput) => string | null;
+}
+
+const HABIT_INPUT_CHECKS: HabitInputCheck[] = [
+  {
+    fields: ['title'],
+    validate: ({ title }) => {
+      if (!title.trim()) return 'Please enter a title.';
+      return title.trim().length > HABIT_TITLE_MAX_LENGTH
+        ? `Title must be ${HABIT_TITLE_MAX_LENGTH} characters or less.`
+        : null;
+    },
+  },
+  {
+    fields: ['description'],
+    validate: ({ description }) =>
+      (description?.trim().length ?? 0) > HABIT_DESCRIPTION_MAX_LENGTH
+        ? `Description must be ${HABIT_DESCRIPTION_MAX_LENGTH} characters or less.`
+        : null,
+  },
+  {
+    fields: ['kind', 'target'],
+    validate: ({ kind, target }) =>
+      kind === 'break' && target
+        ? "Habits you're breaking can't track an amount."
+        : null,
+  },
+  {
+    fields: ['kind', 'target', 'checklist'],
+    validate: ({ kind, target, checklist }) =>
+      checklist?.length && (kind === 'break' || target)
+        ? 'Only habits you check off can have a checklist.'
+        : null,
+  },
+  {
+    fields: ['frequency', 'schedule'],
+    validate: (input) => validateSchedule(getHabitSchedule(input)),
+  },
+  {
+    fields: ['target'],
+    validate: ({ target }) => (target ? validateTarget(target) : null),
+  },
+  {
+    fields: ['tags'],
+    validate: ({ tags }) => validateTags(tags ?? []),
+  },
+  {
+    fields: ['pauses'],
+    validate: ({ pauses }) =>
+      (pauses ?? []).map(validatePause).find(Boolean) ?? null,
+  },
+  {
+    fields: ['challenge'],
+    validate: ({ challenge }) =>
+      challenge ? validateChallenge(challenge) : null,
+  },
+  {
+    fields: ['checklist', 'checklistThreshold'],
+    validate: ({ checklist, checklistThreshold }) =>
+      validateChecklist(checklist ?? [], checklistThreshold ?? undefined),
+  },
+];
+
+/**
+ * Validate habit input
+ * @param input The habit input
+ * @returns An error message, or null if the input is valid
+ */
+export const validateHabitInput = (input: HabitInput): string | null =>
+  HABIT_INPUT_CHECKS.map((check) => check.validate(input)).find(Boolean) ??
+  null;
+
+/**
+ * Validate changes to an existing habit
+ * @description Only the checks that depend on a changed field are run, so a
+ * habit saved before a limit was added can still be paused, archived, moved
+ * or retagged without fixing its other fields first.
+ * @param habit The habit as it is
+ * @param updates The changes
+ * @returns An error message, or null if the changes are valid
+ */
+export const validateHabitUpdates = (
+  habit: Habit,
+  updates: Partial<HabitInput>
+): string | null => {
+  const input = toHabitInput(applyHabitUpdates(habit, updates));
+  return (
+    HABIT_INPUT_CHECKS.filter((check) =>
+      check.fields.some((field) => field in updates)
+    )
+      .map((check) => check.validate(input))
+      .find(Boolean) ?? null
+  );
+};
+
+/**
+ * Find another habit with the same title, ignoring case and whitespace
+ * @param habits The user's habits
+ * @param title The title to look for
+ * @param excludeHabitId A habit to ignore, e.g. the one being edited
+ * @returns The habit with that title, if any
+ */
+export const findHabitByTitle = (
+  habits: Habit[],
+  title: string,
+  excludeHabitId?: string
+): Habit | undefined => {
+  const normalized = title.trim().toLowerCase();
+  if (!normalized) return undefined;
+
+  return habits.find(
+    (habit) =>
+      habit.id !== excludeHabitId &&
+      habit.title.trim().toLowerCase() === normalized
+  );
+};
+
+/**
+ * Build the Habit for new input, as it will look once created
+ * @param habitId The new habit's ID
+ * @param userId The user's ID
+ * @param input The habit to create provided by the user
+ * @returns The new habit
+ */
+export const buildNewHabit = (
+  habitId: string,
+  userId: string,
+  input: HabitInput
+): Habit => {
+  const schedule = getHabitSchedule(input);
+
+  return {
+    id: habitId,
+    userId,
+    title: input.title.trim(),
+    description: input.description?.trim() || '',
+    kind: input.kind ?? 'build',
+    frequency: getLegacyFrequency(schedule),
+    schedule,
+    completedDates: [],
+    progress: {},
+    tags: uniqueTags(input.tags ?? []),
+    ...(input.sortOrder !== undefined && { sortOrder: input.sortOrder }),
+    pauses: input.pauses ?? [],
+    frozenDates: input.frozenDates ?? [],
+    skips: {},
+    notes: {},
+    slips: [],
+    ...(input.challenge && { challenge: input.challenge }),
+    ...(input.followsHabitId && { followsHabitId: input.followsHabitId }),
+    checklist: input.checklist ?? [],
+    ...(input.checklistThreshold && {
+      checklistThreshold: input.checklistThreshold,
+    }),
+    checkedItems: {},
+    ...(input.archivedAt && { archivedAt: input.archivedAt }),
+    ...(input.target && { target: input.target }),
+    ...(input.color && { color: input.color }),
+    ...(input.icon && { icon: input.icon }),
+    createdAt: new Date(), // date comes from the user's device
+    updatedAt: new Date(), // date changes milliseconds later when the habit is updated with the server timestamp
+  };
+};
+
+/**
+ * Get the user-editable fields of a habit
+ * @param habit The habit
+ * @returns The habit as input for creating or updating a habit
+ */
+export const toHabitInput = (habit: Habit): HabitInput => ({
+  title: habit.title,
+  description: habit.description,
+  ...(habit.kind === 'break' && { kind: habit.kind }),
+  frequency: habit.frequency,
+  schedule: habit.schedule,
+  ...(habit.target && { target: habit.target }),
+  ...(habit.color && { color: habit.color }),
+  ...(habit.icon && { icon: habit.icon }),
+  ...(habit.tags.length > 0 && { tags: habit.tags }),
+  ...(habit.sortOrder !== undefined && { sortOrder: habit.sortOrder }),
+  ...(habit.pauses.length > 0 && { pauses: habit.pauses }),
+  ...(habit.frozenDates.length > 0 && { frozenDates: habit.frozenDates }),
+  ...(habit.challenge && { challenge: habit.challenge }),
+  ...(habit.followsHabitId && { followsHabitId: habit.followsHabitId }),
+  ...(habit.checklist.length > 0 && { checklist: habit.checklist }),
+  ...(habit.checklistThreshold && {
+    checklistThreshold: habit.checklistThreshold,
+  }),
+  ...(habit.archivedAt && { archivedAt: habit.archivedAt }),
+});
+
+/**
+ * Recalculate completed dates after a habit's target or checklist changes
+ * @param habit The habit
+ * @returns The habit with completedDates matching its progress or checked
+ * items
+ */
+export const withDerivedCompletions = (habit: Habit): Habit => ({
+  ...habit,
+  completedDates: isQuantitative(habit)
+    ? getCompletedDatesFromProgress(habit.progress, habit.target)
+    : getCompletedDatesFromChecklist(habit),
+});
+
+/**
+ * Apply user updates to a habit
+ * @param habit The habit to update
+ * @param updates The updates provided by the user
+ * @returns The updated habit
+ */
+export const applyHabitUpdates = (
+  habit: Habit,
+  updates: Partial<HabitInput>
+): Habit => {
+  // Ignore undefined values so they can't wipe existing fields
+  const {
+    challenge,
+    followsHabitId,
+    checklistThreshold,
+    archivedAt,
+    ...defined
+  } = Object.fromEntries(
+    Object.entries(updates).filter(([, value]) => value !== undefined)
+  ) as Partial<HabitInput>;
+
+  return withDerivedCompletions({
+    ...habit,
+    ...normalizeScheduleInput(defined),
+    // null removes the challenge, unstacks the habit, requires every step or
+    // unarchives the habit
+    ...(challenge !== undefined && { challenge: challenge ?? undefined }),
+    ...(followsHabitId !== undefined && {
+      followsHabitId: followsHabitId ?? undefined,
+    }),
+    ...(checklistThreshold !== undefined && {
+      checklistThreshold: checklistThreshold ?? undefined,
+    }),
+    ...(archivedAt !== undefined && { archivedAt: archivedAt ?? undefined }),
+    updatedAt: new Date(),
+  });
+};
+
+/**
+ * Get a habit's status on a date
+ * @param habit The habit
+ * @param date The date key
+ * @returns Whether the date is done, skipped or has nothing recorded
+ */
+export const getDayStatus = (
+  habit: Pick<Habit, 'completedDates' | 'skips'>,
+  date: string
+): DayStatus => {
+  const skip = habit.skips[date];
+  if (skip) return { type: 'skipped', ...skip };
+  return habit.completedDates.includes(date)
+    ? { type: 'done' }
+    : { type: 'none' };
+};
+
+/**
+ * Apply a day status to a habit
+ * @description A date holds a single status, so skipping a day clears its
+ * completion, logged amount or checked items, and completing it clears the
+ * skip. Completing a day keeps its note and checked items, so marking an
+ * already done day again loses nothing, while any other status clears them.
+ * Quantitative and checklist habits are completed by logging progress or
+ * checking items instead.
+ * @param habit The habit to update
+ * @param date The date key
+ * @param status The new status for that date
+ * @returns The updated habit
+ */
+export const applyDayStatus = (
+  habit: Habit,
+  date: string,
+  status: DayStatus
+): Habit => {
+  const skips = { ...habit.skips };
+  delete skips[date];
+  const notes = { ...habit.notes };
+  const checkedItems = { ...habit.checkedItems };
+  if (status.type !== 'done') {
+    delete notes[date];
+    delete checkedItems[date];
+  }
+  const cleared = applyProgress(
+    {
+      ...habit,
+      skips,
+      notes,
+      checkedItems,
+      completedDates: habit.completedDates.filter((d) => d !== date),
+    },
+    date,
+    0
+  );
+
+  switch (status.type) {
+    case 'done':
+      return {
+        ...cleared,
+        completedDates: [...cleared.completedDates, date].sort(),
+      };
+    case 'skipped':
+      return {
+        ...cleared,
+        skips: {
+          ...skips,
+          [date]: {
+            reason: status.reason,
+            ...(status.note?.trim() && { note: status.note.trim() }),
+          },
+        },
+      };
+    default:
+      return cleared;
+  }
+};
+
+/**
+ * Apply a logged amount for a date, replacing any skip on that date
+ * @description The date's note is kept while some amount is logged.
+ * @param habit The quantitative habit to update
+ * @param date The date key
+ * @param amount The new total amount for that date
+ * @returns The updated habit
+ */
+export const applyLoggedProgress = (
+  habit: Habit,
+  date: string,
+  amount: number
+): Habit => {
+  const skips = { ...habit.skips };
+  delete skips[date];
+  const notes = { ...habit.notes };
+  if (amount <= 0) delete notes[date];
+  return applyProgress({ ...habit, skips, notes }, date, amount);
+};
+
+/**
+ * Apply the checklist items checked on a date to a habit
+ * @description Like logging progress, checking items clears any skip on the
+ * date, and unchecking every item clears its note.
+ * @param habit The habit to update
+ * @param date The date key
+ * @param checked The IDs of the checked items, empty to clear the date
+ * @returns The updated habit with `completedDates` in sync
+ */
+export const applyCheckedItems = (
+  habit: Habit,
+  date: string,
+  checked: string[]
+): Habit => {
+  const skips = { ...habit.skips };
+  delete skips[date];
+  const notes = { ...habit.notes };
+  if (checked.length === 0) delete notes[date];
+  const checkedItems = { ...habit.checkedItems };
+  if (checked.length > 0) {
+    checkedItems[date] = checked;
+  } else {
+    delete checkedItems[date];
+  }
+
+  const updated = {
+    ...habit,
+    skips,
+    notes,
+    checkedItems,
+    completedDates: habit.completedDates.filter((d) => d !== date),
+  };
+  return {
+    ...updated,
+    completedDates: getCompletedDatesFromChecklist(updated),
+  };
+};
@@ -0,0 +1,121 @@
+import { Habit, HabitNote } from '../types';
+
+/**
+ * Journal
+ * @description Pure helpers for the notes and ratings attached to completed
+ * days. A note can only be written on a day that's checked off, or that has
+ * some progress logged for quantitative habits.
+ */
+
+export const NOTE_MAX_LENGTH = 500;
+export const MAX_RATING = 5;
+
+/**
+ * A journal entry: a habit's note for one date
+ */
+export interface JournalEntry {
+  habit: Habit;
+  date: string;
+  note: HabitNote;
+}
+
+/**
+ * Validate a note
+ * @param note The note to validate
+ * @returns An error message, or null if the note is valid
+ */
+export const validateNote = (note: HabitNote): string | null => {
+  if ((note.note?.length ?? 0) > NOTE_MAX_LENGTH) {
+    return `Notes must be ${NOTE_MAX_LENGTH} characters or less.`;
+  }
+  if (
+    note.rating !== undefined &&
+    (!Number.isInteger(note.rating) ||
+      note.rating < 1 ||
+      note.rating > MAX_RATING)
+  ) {
+    return `Ratings must be a whole number from 1 to ${MAX_RATING}.`;
+  }
+  return null;
+};
+
+/**
+ * Drop empty fields from a note
+ * @param note The note
+ * @returns The trimmed note, or null if there's nothing left in it
+ */
+export const normalizeNote = (note: HabitNote | null): HabitNote | null => {
+  const text = note?.note?.trim();
+  const rating = note?.rating;
+  if (!text && rating === undefined) return null;
+  return {
+    ...(text && { note: text }),
+    ...(rating !== undefined && { rating }),
+  };
+};
+
+/**
+ * Check whether a habit has a completion on a date that a note can go on
+ * @param habit The habit
+ * @param date The date key
+ * @returns Whether the date is checked off, or has progress logged or items
+ * checked
+ */
+export const canAddNote = (
+  habit: Pick<Habit, 'completedDates' | 'progress' | 'checkedItems'>,
+  date: string
+): boolean =>
+  habit.completedDates.includes(date) ||
+  (habit.progress[date] ?? 0) > 0 ||
+  (habit.checkedItems[date]?.length ?? 0) > 0;
+
+/**
+ * Set or clear a habit's note for a date
+ * @param habit The habit to update
+ * @param date The date key
+ * @param note The new note, null to clear it
+ * @returns The updated habit
+ */
+export const applyNote = <T extends Pick<Habit, 'notes'>>(
+  habit: T,
+  date: string,
+  note: HabitNote | null
+): T => {
+  const notes = { ...habit.notes };
+  const normalized = normalizeNote(note);
+  if (normalized) {
+    notes[date] = normalized;
+  } else {
+    delete notes[date];
+  }
+  return { ...habit, notes };
+};
+
+/**
+ * List the notes of every habit, newest first
+ * @param habits The habits
+ * @param search Text to look for in notes and habit titles, ignoring case
+ * @returns The matching journal entries
+ */
+export const getJournalEntries = (
+  habits: Habit[],
+  search = ''
+): JournalEntry[] => {
+  const query = search.trim().toLowerCase();
+
+  return habits
+    .flatMap((habit) =>
+      Object.entries(habit.notes).map(([date, note]) => ({ habit, date, note }))
+    )
+    .filter(
+      (entry) =>
+        !query ||
+        (entry.note.note ?? '').toLowerCase().includes(query) ||
+        entry.habit.title.toLowerCase().includes(query)
+    )
+    .sort(
+      (a, b) =>
+        b.date.localeCompare(a.date) ||
+        a.habit.title.localeCompare(b.habit.title)
+    );
+};
@@ -0,0 +1,106 @@
+import { HabitDocument, MigratedHabitDocument } from '../types';
+import { getHabitSchedule } from './schedule';
+
+/**
+ * Migrations
+ * @description Pure helpers for upgrading habit documents between schema
+ * versions. Every document records the version it was written in, and each
+ * step upgrades it by one version. Documents are upgraded in memory whenever
+ * they're read, and rewritten in bulk on sign in, so older documents keep
+ * working until the bulk run gets to them. Steps only fill in what's missing,
+ * so running one twice is harmless.
+ */
+
+/**
+ * A step that upgrades habit documents to a schema version
+ */
+export interface HabitMigration {
+  version: number;
+  description: string;
+  upgrade: (data: HabitDocument) => HabitDocument;
+}
+
+/**
+ * Every migration step, oldest first. Append new steps to the end
+ */
+export const HABIT_MIGRATIONS: HabitMigration[] = [
+  {
+    version: 1,
+    description: 'Move completions into the completions subcollection',
+    // Reads merge any legacy completions in, the bulk run moves them
+    upgrade: (data) => data,
+  },
+  {
+    version: 2,
+    description: 'Replace the legacy frequency with a schedule',
+    upgrade: (data) => ({ ...data, schedule: getHabitSchedule(data) }),
+  },
+  {
+    version: 3,
+    description: 'Fill in fields added since habits were first created',
+    upgrade: (data) => ({
+      ...data,
+      description: data.description ?? '',
+      kind: data.kind ?? 'build',
+      tags: data.tags ?? [],
+      pauses: data.pauses ?? [],
+      frozenDates: data.frozenDates ?? [],
+      slips: data.slips ?? [],
+      checklist: data.checklist ?? [],
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION =
+  HABIT_MIGRATIONS[HABIT_MIGRATIONS.length - 1].version;
+
+/**
+ * Get the schema version a habit document was written in
+ */
+export const getSchemaVersion = (data: Pick<HabitDocument, 'schemaVersion'>) =>
+  data.schemaVersion ?? 0;
+
+/**
+ * Check whether a habit document is older than the current schema
+ */
+export const needsMigration = (
+  data: Pick<HabitDocument, 'schemaVersion'>
+): boolean => getSchemaVersion(data) < CURRENT_SCHEMA_VERSION;
+
+/**
+ * Upgrade a habit document to the current schema version
+ * @param data The document as stored
+ * @returns The document with every newer step applied
+ */
+export const upgradeHabitDocument = (
+  data: HabitDocument
+): MigratedHabitDocument => {
+  const version = getSchemaVersion(data);
+  const upgraded = HABIT_MIGRATIONS.filter(
+    (step) => step.version > version
+  ).reduce((current, step) => step.upgrade(current), data);
+
+  // The steps fill in every field older versions could be missing
+  return {
+    ...upgraded,
+    schemaVersion: Math.max(version, CURRENT_SCHEMA_VERSION),
+  } as MigratedHabitDocument;
+};
+
+/**
+ * Get the fields an upgrade adds or changes
+ * @description Writing only these keeps anything written to the document
+ * since it was read, e.g. a slip logged on another device.
+ * @param data The document as stored
+ * @returns The upgraded fields, including the new schema version
+ */
+export const getMigrationChanges = (
+  data: HabitDocument
+): Partial<HabitDocument> => {
+  const upgraded = upgradeHabitDocument(data);
+  return Object.fromEntries(
+    Object.entries(upgraded).filter(
+      ([key, value]) => data[key as keyof HabitDocument] !== value
+    )
+  );
+};
@@ -0,0 +1,175 @@
+import { Habit, HabitSortMode, HabitStreak } from '../types';
+import { isHabitDueOn } from './schedule';
+import { isBreakingHabit } from './slips';
+
+/**
+ * Ordering
+ * @description Pure helpers for the order habits are listed in. The manual
+ * order is a fractional `sortOrder`: moving a habit gives it a value between
+ * its new neighbours, so only the moved habit is written. Habits that were
+ * never moved are ordered by `-createdAt`, which keeps new habits on top.
+ */
+
+// Space left between habits moved to the top or bottom of the list
+export const SORT_ORDER_STEP = 1000;
+
+export const HABIT_SORT_MODES: { mode: HabitSortMode; label: string }[] = [
+  { mode: 'manual', label: 'My order' },
+  { mode: 'alphabetical', label: 'A–Z' },
+  { mode: 'dueFirst', label: 'Due first' },
+  { mode: 'streak', label: 'Streak' },
+];
+
+/**
+ * A new manual position for a habit
+ */
+export interface SortOrderUpdate {
+  id: string;
+  sortOrder: number;
+}
+
+/**
+ * Get a habit's position in the manual order
+ * @param habit The habit
+ * @returns Its sortOrder, or one derived from when it was created
+ */
+export const getSortOrder = (
+  habit: Pick<Habit, 'sortOrder' | 'createdAt'>
+): number => habit.sortOrder ?? -new Date(habit.createdAt).getTime();
+
+/**
+ * Sort habits in their manual order
+ * @param habits The habits
+ * @returns A sorted copy
+ */
+export const sortHabitsByOrder = <
+  T extends Pick<Habit, 'sortOrder' | 'createdAt'>,
+>(
+  habits: T[]
+): T[] => [...habits].sort((a, b) => getSortOrder(a) - getSortOrder(b));
+
+/**
+ * Sort habits for display
+ * @description Every mode falls back to the manual order for ties.
+ * @param habits The habits
+ * @param mode How to sort them
+ * @param today Today's date key, for the due first mode
+ * @param streaks Streaks keyed by habit ID, for the streak mode
+ * @returns A sorted copy
+ */
+export const sortHabits = (
+  habits: Habit[],
+  mode: HabitSortMode,
+  today: string,
+  streaks: Record<string, HabitStreak>
+): Habit[] => {
+  const ordered = sortHabitsByOrder(habits);
+
+  // Habits left to do today first, then done ones, then ones not due
+  const getDueRank = (habit: Habit): number => {
+    if (isBreakingHabit(habit)) return 1;
+    if (!isHabitDueOn(habit, today)) return 2;
+    return habit.completedDates.includes(today) ? 1 : 0;
+  };
+
+  switch (mode) {
+    case 'alphabetical':
+      return ordered.sort((a, b) =>
+        a.title.localeCompare(b.title, undefined, { sensitivity: 'base' })
+      );
+    case 'dueFirst':
+      return ordered.sort((a, b) => getDueRank(a) - getDueRank(b));
+    case 'streak':
+      return ordered.sort(
+        (a, b) => (streaks[b.id]?.current ?? 0) - (streaks[a.id]?.current ?? 0)
+      );
+    default:
+      return ordered;
+  }
+};
+
+/**
+ * Work out the new manual position of a moved habit
+ * @description Usually only the moved habit changes. If there's no room left
+ * between its neighbours, every listed habit is spread out again.
+ * @param habits The habits as listed, in manual order
+ * @param from The index the habit was moved from
+ * @param to The index the habit was dropped at
+ * @returns The sortOrder changes to save, empty if nothing moved
+ */
+export const getMoveUpdates = (
+  habits: Habit[],
+  from: number,
+  to: number
+): SortOrderUpdate[] => {
+  if (from === to || !habits[from]) return [];
+
+  const moved = habits[from];
+  const rest = habits.filter((_, index) => index !== from);
+  const previous = rest[to - 1];
+  const next = rest[to];
+
+  let sortOrder: number;
+  if (!previous) {
+    sortOrder = getSortOrder(next) - SORT_ORDER_STEP;
+  } else if (!next) {
+    sortOrder = getSortOrder(previous) + SORT_ORDER_STEP;
+  } else {
+    sortOrder = (getSortOrder(previous) + getSortOrder(next)) / 2;
+  }
+
+  if (
+    (!previous || sortOrder > getSortOrder(previous)) &&
+    (!next || sortOrder < getSortOrder(next))
+  ) {
+    return [{ id: moved.id, sortOrder }];
+  }
+
+  // Out of precision between the neighbours, renumber the whole list
+  const reordered = [...rest.slice(0, to), moved, ...rest.slice(to)];
+  return reordered.map((habit, index) => ({
+    id: habit.id,
+    sortOrder: (index + 1) * SORT_ORDER_STEP,
+  }));
+};
+
+/**
+ * Work out the new manual position of a habit moved in a filtered or grouped
+ * list
+ * @description The listed habits aren't necessarily next to each other in
+ * the manual order, so the move is made in the full order instead: the habit
+ * goes right after the one it was dropped below, or right before the one it
+ * was dropped above when dropped at the top. Habits that aren't listed keep
+ * their positions.
+ * @param habits Every habit
+ * @param listedIds The IDs of the habits as listed
+ * @param from The listed index the habit was moved from
+ * @param to The listed index the habit was dropped at
+ * @returns The sortOrder changes to save, empty if nothing moved
+ */
+export const getListedMoveUpdates = (
+  habits: Habit[],
+  listedIds: string[],
+  from: number,
+  to: number
+): SortOrderUpdate[] => {
+  const movedId = listedIds[from];
+  if (from === to || !movedId) return [];
+
+  const listedRest = listedIds.filter((_, index) => index !== from);
+  const previousId = listedRest[to - 1];
+  const nextId = listedRest[to];
+
+  const ordered = sortHabitsByOrder(habits);
+  const orderedRest = ordered.filter((habit) => habit.id !== movedId);
+  const anchor = orderedRest.findIndex(
+    (habit) => habit.id === (previousId ?? nextId)
+  );
+  if (anchor < 0) return [];
+
+  return getMoveUpdates(
+    ordered,
+    ordered.findIndex((habit) => habit.id === movedId),
+    previousId ? anchor + 1 : anchor
+  );
+};
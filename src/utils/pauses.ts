@@ -0,0 +1,107 @@
+import { Habit, HabitPause } from '../types';
+import { addDays, isValidDateKey } from './dateKeys';
+
+/**
+ * Pauses
+ * @description Pure helpers for the date ranges a habit is paused for.
+ * Ranges are inclusive date keys and kept sorted without overlaps.
+ */
+
+/**
+ * Validate a pause
+ * @param pause The pause to validate
+ * @returns An error message, or null if the pause is valid
+ */
+export const validatePause = (pause: HabitPause): string | null => {
+  if (!isValidDateKey(pause.startDate) || !isValidDateKey(pause.endDate)) {
+    return 'Dates must be in YYYY-MM-DD format.';
+  }
+  if (pause.endDate < pause.startDate) {
+    return 'The pause must end on or after the day it starts.';
+  }
+  return null;
+};
+
+/**
+ * Check whether a date falls in any pause
+ * @param pauses The habit's pauses
+ * @param dateKey The date key to check
+ * @returns Whether the habit is paused on that date
+ */
+export const isDatePaused = (pauses: HabitPause[], dateKey: string): boolean =>
+  pauses.some(
+    (pause) => pause.startDate <= dateKey && dateKey <= pause.endDate
+  );
+
+/**
+ * Check whether every day of a date range is paused or skipped
+ * @param habit The habit
+ * @param startDate The first date key of the range
+ * @param endDate The last date key of the range
+ * @returns Whether every date in the range is excused
+ */
+export const isRangeExcused = (
+  habit: Pick<Habit, 'pauses' | 'skips'>,
+  startDate: string,
+  endDate: string
+): boolean => {
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (!isDatePaused(habit.pauses, date) && !habit.skips[date]) return false;
+  }
+  return true;
+};
+
+/**
+ * Get the pause a date falls in
+ * @param pauses The habit's pauses
+ * @param dateKey The date key, usually today
+ * @returns The pause covering that date, if any
+ */
+export const getActivePause = (
+  pauses: HabitPause[],
+  dateKey: string
+): HabitPause | undefined =>
+  pauses.find(
+    (pause) => pause.startDate <= dateKey && dateKey <= pause.endDate
+  );
+
+/**
+ * Add a pause, merging it with any it overlaps or touches
+ * @param pauses The habit's pauses
+ * @param pause The pause to add
+ * @returns The new list of pauses
+ */
+export const addPause = (
+  pauses: HabitPause[],
+  pause: HabitPause
+): HabitPause[] => {
+  const sorted = [...pauses, pause].sort((a, b) =>
+    a.startDate.localeCompare(b.startDate)
+  );
+
+  return sorted.reduce<HabitPause[]>((merged, next) => {
+    const last = merged[merged.length - 1];
+    if (last && next.startDate <= addDays(last.endDate, 1)) {
+      merged[merged.length - 1] = {
+        ...last,
+        endDate: next.endDate > last.endDate ? next.endDate : last.endDate,
+      };
+    } else {
+      merged.push({ ...next });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * End the pause covering a date, so the habit is active again from then on
+ * @param pauses The habit's pauses
+ * @param dateKey The date to resume on, usually today
+ * @returns The new list of pauses. Pauses planned for later are kept
+ */
+export const endPause = (pauses: HabitPause[], dateKey: string): HabitPause[] =>
+  pauses.flatMap((pause) => {
+    if (pause.startDate > dateKey || pause.endDate < dateKey) return [pause];
+    if (pause.startDate === dateKey) return [];
+    return [{ ...pause, endDate: addDays(dateKey, -1) }];
+  });
@@ -0,0 +1,96 @@
+import { Habit, HabitTarget } from '../types';
+
+/**
+ * Progress
+ * @description Helpers for quantitative habits. These habits log an amount
+ * per day in `progress`, and a day only counts as complete (and appears in
+ * `completedDates`) once the logged amount reaches the target.
+ */
+
+/**
+ * Check whether a habit tracks a numeric target
+ * @param habit The habit
+ * @returns Whether the habit is quantitative
+ */
+export const isQuantitative = (
+  habit: Pick<Habit, 'target'>
+): habit is Pick<Habit, 'target'> & { target: HabitTarget } => !!habit.target;
+
+/**
+ * Amount added or removed by a single increment
+ * @param target The habit's target
+ * @returns The step size
+ */
+export const getTargetStep = (target: HabitTarget): number =>
+  target.step && target.step > 0 ? target.step : 1;
+
+/**
+ * Get the dates on which the target was met
+ * @param progress The logged amount per date
+ * @param target The habit's target
+ * @returns The completed date keys, sorted ascending
+ */
+export const getCompletedDatesFromProgress = (
+  progress: Record<string, number>,
+  target: HabitTarget
+): string[] =>
+  Object.keys(progress)
+    .filter((date) => progress[date] >= target.value)
+    .sort();
+
+/**
+ * Apply a new logged amount for a date to a habit
+ * @param habit The habit to update
+ * @param date The date key
+ * @param amount The new total amount for that date
+ * @returns The updated habit with `progress` and `completedDates` in sync
+ */
+export const applyProgress = <
+  T extends Pick<Habit, 'target' | 'progress' | 'completedDates'>,
+>(
+  habit: T,
+  date: string,
+  amount: number
+): T => {
+  const progress = { ...habit.progress };
+  if (amount > 0) {
+    progress[date] = amount;
+  } else {
+    delete progress[date];
+  }
+
+  return {
+    ...habit,
+    progress,
+    completedDates: habit.target
+      ? getCompletedDatesFromProgress(progress, habit.target)
+      : habit.completedDates,
+  };
+};
+
+/**
+ * Validate a target
+ * @param target The target to validate
+ * @returns An error message, or null if the target is valid
+ */
+export const validateTarget = (target: HabitTarget): string | null => {
+  if (!Number.isFinite(target.value) || target.value <= 0) {
+    return 'Target must be greater than zero.';
+  }
+  if (!target.unit.trim()) {
+    return 'Please enter a unit, e.g. glasses or minutes.';
+  }
+  if (target.step !== undefined && target.step <= 0) {
+    return 'Step must be greater than zero.';
+  }
+  return null;
+};
+
+/**
+ * Format progress towards a target for display
+ * @param amount The logged amount
+ * @param target The habit's target
+ * @returns A label such as "5 / 8 glasses"
+ */
+export const formatProgress = (amount: number, target: HabitTarget): string =>
+  `${amount.toLocaleString()} / ${target.value.toLocaleString()} ${target.unit}`;
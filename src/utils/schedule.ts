@@ -0,0 +1,298 @@
+import { Habit, HabitFrequency, HabitInput, HabitSchedule } from '../types';
+import {
+  addDays,
+  addMonths,
+  diffInDays,
+  getDayOfWeek,
+  getMonthStartKey,
+  getWeekStartKey,
+} from './dateKeys';
+import { isInChallenge } from './challenges';
+import { isDatePaused, isRangeExcused } from './pauses';
+
+/**
+ * Schedule
+ * @description Helpers for habit schedules. A schedule divides time into
+ * periods (a day, a week, a month, a scheduled weekday or an N-day window).
+ * Each period needs a number of completions to be satisfied, and a habit is
+ * due on any date whose period isn't satisfied yet.
+ */
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Get the schedule for a habit, falling back to its legacy frequency
+ * @param habit The habit (or habit input)
+ * @returns The habit's schedule
+ */
+export const getHabitSchedule = (
+  habit: Pick<HabitInput, 'frequency' | 'schedule'>
+): HabitSchedule => habit.schedule ?? { type: habit.frequency };
+
+/**
+ * Get the legacy frequency that best describes a schedule
+ * @param schedule The schedule
+ * @returns The closest legacy frequency
+ */
+export const getLegacyFrequency = (schedule: HabitSchedule): HabitFrequency => {
+  switch (schedule.type) {
+    case 'weekly':
+    case 'weekdays':
+    case 'timesPerWeek':
+      return 'weekly';
+    case 'monthly':
+      return 'monthly';
+    default:
+      return 'daily';
+  }
+};
+
+/**
+ * Keep `frequency` and `schedule` in sync on habit input or updates
+ * @description A new schedule overrides the frequency, and a bare frequency
+ * change replaces the schedule with the matching simple one.
+ * @param input The habit input or partial updates
+ * @returns The input with consistent frequency and schedule
+ */
+export const normalizeScheduleInput = <T extends Partial<HabitInput>>(
+  input: T
+): T => {
+  if (input.schedule) {
+    return { ...input, frequency: getLegacyFrequency(input.schedule) };
+  }
+  if (input.frequency) {
+    return { ...input, schedule: { type: input.frequency } };
+  }
+  return input;
+};
+
+/**
+ * Validate a schedule
+ * @param schedule The schedule to validate
+ * @returns An error message, or null if the schedule is valid
+ */
+export const validateSchedule = (schedule: HabitSchedule): string | null => {
+  switch (schedule.type) {
+    case 'weekdays':
+      if (schedule.days.length === 0) {
+        return 'Pick at least one day of the week.';
+      }
+      if (schedule.days.some((day) => day < 0 || day > 6)) {
+        return 'Days of the week must be between Sunday and Saturday.';
+      }
+      return null;
+    case 'timesPerWeek':
+      if (
+        !Number.isInteger(schedule.count) ||
+        schedule.count < 1 ||
+        schedule.count > 7
+      ) {
+        return 'Times per week must be between 1 and 7.';
+      }
+      return null;
+    case 'everyNDays':
+      if (!Number.isInteger(schedule.interval) || schedule.interval < 1) {
+        return 'Repeat interval must be at least 1 day.';
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Get the start of the period containing a date
+ * @param schedule The schedule
+ * @param dateKey The date key
+ * @returns The date key of the period's first day, or null if the date isn't
+ * part of any period (an unscheduled weekday, or before an N-day schedule starts)
+ */
+export const getPeriodStart = (
+  schedule: HabitSchedule,
+  dateKey: string
+): string | null => {
+  switch (schedule.type) {
+    case 'weekly':
+    case 'timesPerWeek':
+      return getWeekStartKey(dateKey);
+    case 'monthly':
+      return getMonthStartKey(dateKey);
+    case 'weekdays':
+      return schedule.days.includes(getDayOfWeek(dateKey)) ? dateKey : null;
+    case 'everyNDays': {
+      const elapsed = diffInDays(schedule.startDate, dateKey);
+      if (elapsed < 0 || schedule.interval < 1) return null;
+      return addDays(dateKey, -(elapsed % schedule.interval));
+    }
+    default:
+      return dateKey;
+  }
+};
+
+/**
+ * Get the start of the last period that begins before a date
+ * @param schedule The schedule
+ * @param dateKey A date key, usually the start of a period
+ * @returns The date key of the previous period's first day, or null if there
+ * is no earlier period
+ */
+export const getPreviousPeriodStart = (
+  schedule: HabitSchedule,
+  dateKey: string
+): string | null => {
+  switch (schedule.type) {
+    case 'weekly':
+    case 'timesPerWeek':
+      return addDays(getWeekStartKey(dateKey), -7);
+    case 'monthly':
+      return addMonths(getMonthStartKey(dateKey), -1);
+    case 'weekdays': {
+      for (let offset = 1; offset <= 7; offset++) {
+        const candidate = addDays(dateKey, -offset);
+        if (schedule.days.includes(getDayOfWeek(candidate))) {
+          return candidate;
+        }
+      }
+      return null;
+    }
+    case 'everyNDays': {
+      const current = getPeriodStart(schedule, dateKey);
+      if (!current) return null;
+      const previous = addDays(current, -schedule.interval);
+      return diffInDays(schedule.startDate, previous) >= 0 ? previous : null;
+    }
+    default:
+      return addDays(dateKey, -1);
+  }
+};
+
+/**
+ * Get the last day of a period
+ * @param schedule The schedule
+ * @param periodStart The date key of the period's first day
+ * @returns The date key of the period's last day
+ */
+export const getPeriodEnd = (
+  schedule: HabitSchedule,
+  periodStart: string
+): string => {
+  switch (schedule.type) {
+    case 'weekly':
+    case 'timesPerWeek':
+      return addDays(periodStart, 6);
+    case 'monthly':
+      return addDays(addMonths(periodStart, 1), -1);
+    case 'everyNDays':
+      return addDays(periodStart, Math.max(1, schedule.interval) - 1);
+    default:
+      return periodStart;
+  }
+};
+
+/**
+ * Check whether a period is excused by a pause, a skip or a streak freeze
+ * @description An excused period that isn't satisfied is neutral: it
+ * neither extends nor breaks a streak. A streak freeze covers the period it
+ * was used on, while pauses and skips only excuse a period when they cover
+ * every day of it, so one skipped rest day doesn't excuse a whole week.
+ * @param habit The habit
+ * @param periodStart The date key of the period's first day
+ * @returns Whether the period is frozen, or paused or skipped every day
+ */
+export const isPeriodExcused = (
+  habit: Pick<
+    Habit,
+    'frequency' | 'schedule' | 'pauses' | 'frozenDates' | 'skips'
+  >,
+  periodStart: string
+): boolean => {
+  const periodEnd = getPeriodEnd(getHabitSchedule(habit), periodStart);
+  return (
+    habit.frozenDates.some(
+      (date) => periodStart <= date && date <= periodEnd
+    ) || isRangeExcused(habit, periodStart, periodEnd)
+  );
+};
+
+/**
+ * Number of completions needed to satisfy one period
+ * @param schedule The schedule
+ * @returns The required number of completions
+ */
+export const getRequiredCompletions = (schedule: HabitSchedule): number =>
+  schedule.type === 'timesPerWeek' ? schedule.count : 1;
+
+/**
+ * Check whether a habit is due on a date
+ * @description A habit is due when the date belongs to one of its periods,
+ * isn't paused, and that period isn't already satisfied by completions on
+ * other days. A completion on the date itself keeps it due, so it stays
+ * checkable. Habits with a challenge are only due while it runs.
+ * @param habit The habit
+ * @param dateKey The date key to check
+ * @returns Whether the habit is due on that date
+ */
+export const isHabitDueOn = (
+  habit: Pick<
+    Habit,
+    'frequency' | 'schedule' | 'completedDates' | 'pauses' | 'challenge'
+  >,
+  dateKey: string
+): boolean => {
+  const schedule = getHabitSchedule(habit);
+  const period = getPeriodStart(schedule, dateKey);
+  if (!period || isDatePaused(habit.pauses, dateKey)) return false;
+  if (!isInChallenge(habit, dateKey)) return false;
+
+  const otherCompletions = habit.completedDates.filter(
+    (date) => date !== dateKey && getPeriodStart(schedule, date) === period
+  ).length;
+
+  return otherCompletions < getRequiredCompletions(schedule);
+};
+
+/**
+ * Describe a schedule for display
+ * @param schedule The schedule
+ * @returns A short human readable label
+ */
+export const formatSchedule = (schedule: HabitSchedule): string => {
+  switch (schedule.type) {
+    case 'weekly':
+      return '📆 Weekly';
+    case 'monthly':
+      return '🗓️ Monthly';
+    case 'weekdays':
+      return `📆 ${[...schedule.days]
+        .sort((a, b) => a - b)
+        .map((day) => DAY_NAMES[day])
+        .join(', ')}`;
+    case 'timesPerWeek':
+      return `🔁 ${schedule.count}× per week`;
+    case 'everyNDays':
+      return schedule.interval === 1
+        ? '📅 Daily'
+        : `🔁 Every ${schedule.interval} days`;
+    default:
+      return '📅 Daily';
+  }
+};
+
+/**
+ * Unit to describe one streak period of a schedule
+ * @param schedule The schedule
+ * @returns The singular unit name
+ */
+export const getStreakUnit = (schedule: HabitSchedule): string => {
+  switch (schedule.type) {
+    case 'weekly':
+    case 'timesPerWeek':
+      return 'week';
+    case 'monthly':
+      return 'month';
+    case 'everyNDays':
+      return 'cycle';
+    default:
+      return 'day';
+  }
+};
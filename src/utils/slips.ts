@@ -0,0 +1,94 @@
+import { Habit, HabitSlip, HabitStreak } from '../types';
+import { DateKeyOptions, diffInDays, getDateKey } from './dateKeys';
+
+/**
+ * Slips
+ * @description Pure helpers for habits being broken, where the user logs
+ * slips instead of completions. A clean run is the number of whole days since
+ * the last slip, or since the habit started if there hasn't been one.
+ */
+
+export const SLIP_NOTE_MAX_LENGTH = 140;
+
+/**
+ * Check whether a habit is one the user is breaking
+ * @param habit The habit
+ * @returns Whether the habit tracks slips instead of completions
+ */
+export const isBreakingHabit = (habit: Pick<Habit, 'kind'>): boolean =>
+  habit.kind === 'break';
+
+/**
+ * Create a new slip
+ * @param date The date key the slip happened on
+ * @param note An optional note about what happened
+ * @returns The slip, with a unique ID
+ */
+export const createSlip = (date: string, note?: string): HabitSlip => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  date,
+  ...(note?.trim() && { note: note.trim() }),
+});
+
+/**
+ * Add or remove a slip
+ * @description Slips are matched by ID, so adding one twice or removing one
+ * that's gone is a no-op, like the Firestore array writes.
+ * @param habit The habit to update
+ * @param slip The slip
+ * @param logged Whether the slip should be logged or removed
+ * @returns The updated habit
+ */
+export const applySlip = <T extends Pick<Habit, 'slips'>>(
+  habit: T,
+  slip: HabitSlip,
+  logged: boolean
+): T => {
+  const slips = habit.slips.filter((s) => s.id !== slip.id);
+  return { ...habit, slips: logged ? [...slips, slip] : slips };
+};
+
+/**
+ * Get a habit's slips, newest first
+ * @param habit The habit
+ * @returns The slips, most recent date first
+ */
+export const getSortedSlips = (habit: Pick<Habit, 'slips'>): HabitSlip[] =>
+  [...habit.slips].sort((a, b) => b.date.localeCompare(a.date));
+
+/**
+ * Calculate the current and best clean run of a habit being broken
+ * @description Slips in the future are ignored. A slip logged before the
+ * habit was created counts as its start.
+ * @param habit The habit
+ * @param today Today's date key
+ * @param options The timezone and rollover hour `today` was produced with
+ * @returns The clean runs in days, in the shape of a streak summary.
+ * `lastCompletedPeriod` is the date of the last slip
+ */
+export const calculateCleanStreak = (
+  habit: Pick<Habit, 'createdAt' | 'slips'>,
+  today: string,
+  options?: DateKeyOptions
+): HabitStreak => {
+  const slipDates = Array.from(
+    new Set(habit.slips.map((slip) => slip.date).filter((d) => d <= today))
+  ).sort();
+
+  const createdKey = getDateKey(new Date(habit.createdAt), options);
+  let previous =
+    slipDates[0] && slipDates[0] < createdKey ? slipDates[0] : createdKey;
+  let longest = 0;
+
+  slipDates.forEach((date) => {
+    longest = Math.max(longest, diffInDays(previous, date));
+    previous = date;
+  });
+
+  const current = Math.max(0, diffInDays(previous, today));
+  return {
+    current,
+    longest: Math.max(longest, current),
+    lastCompletedPeriod: slipDates[slipDates.length - 1] ?? null,
+  };
+};
@@ -0,0 +1,185 @@
+import { Habit } from '../types';
+import { isHabitDueOn } from './schedule';
+import { isBreakingHabit } from './slips';
+
+/**
+ * Stacking
+ * @description Pure helpers for habit stacks, e.g. "after I pour coffee, I
+ * will journal". A habit can follow one other habit and be followed by one,
+ * so stacked habits form linear chains called routines. A habit following one
+ * that no longer exists starts its own chain.
+ */
+
+/**
+ * An ordered chain of stacked habits
+ */
+export interface Routine {
+  // The first habit's ID
+  id: string;
+  title: string;
+  habits: Habit[];
+}
+
+/**
+ * A habit's place in its routine
+ */
+export interface RoutineStep {
+  routine: Routine;
+  // 0-based position in the routine
+  index: number;
+  isNext: boolean;
+}
+
+/**
+ * Get the habit stacked directly after a habit
+ */
+export const getFollower = (
+  habits: Habit[],
+  habitId: string
+): Habit | undefined =>
+  habits.find((habit) => habit.followsHabitId === habitId);
+
+/**
+ * Validate where a habit is stacked
+ * @description Habits being broken have no check-off to follow, a habit can
+ * only be followed by one other, and a chain can't loop back on itself.
+ * @param habits The user's habits
+ * @param habitId The habit being saved, undefined when creating one
+ * @param followsHabitId The habit it should follow
+ * @returns An error message, or null if the habit can be stacked there
+ */
+export const validateStack = (
+  habits: Habit[],
+  habitId: string | undefined,
+  followsHabitId: string
+): string | null => {
+  const previous = habits.find((habit) => habit.id === followsHabitId);
+  if (!previous) {
+    return 'The habit to follow no longer exists.';
+  }
+  if (followsHabitId === habitId) {
+    return "A habit can't follow itself.";
+  }
+  if (isBreakingHabit(previous)) {
+    return "Habits you're breaking can't start a routine.";
+  }
+
+  const follower = getFollower(habits, followsHabitId);
+  if (follower && follower.id !== habitId) {
+    return `"${follower.title}" already follows "${previous.title}".`;
+  }
+
+  // Walk back from the new predecessor; reaching the habit means a loop
+  const visited = new Set<string>();
+  let current: Habit | undefined = previous;
+  while (current && !visited.has(current.id)) {
+    if (current.id === habitId) {
+      return `"${previous.title}" already comes after this habit, so stacking it there would make a loop.`;
+    }
+    visited.add(current.id);
+    current = habits.find((habit) => habit.id === current?.followsHabitId);
+  }
+  return null;
+};
+
+/**
+ * Get the habits a habit could be stacked after
+ * @param habits The user's habits
+ * @param habitId The habit being edited, undefined when creating one
+ * @returns The habits that wouldn't make the stack invalid
+ */
+export const getStackOptions = (habits: Habit[], habitId?: string): Habit[] =>
+  habits.filter((habit) => !validateStack(habits, habitId, habit.id));
+
+/**
+ * Group stacked habits into routines
+ * @param habits The habits
+ * @returns Every chain of two or more habits, in chain order
+ */
+export const getRoutines = (habits: Habit[]): Routine[] => {
+  const ids = new Set(habits.map((habit) => habit.id));
+  const roots = habits.filter(
+    (habit) =>
+      (!habit.followsHabitId || !ids.has(habit.followsHabitId)) &&
+      getFollower(habits, habit.id)
+  );
+
+  return roots.map((root) => {
+    const chain = [root];
+    let next = getFollower(habits, root.id);
+    // Guard against loops saved before validation, e.g. by another device
+    while (next && !chain.includes(next)) {
+      chain.push(next);
+      next = getFollower(habits, next.id);
+    }
+    return { id: root.id, title: root.title, habits: chain };
+  });
+};
+
+/**
+ * Check whether a routine step is done for the day
+ * @description Steps that aren't due, are skipped or are done all count, so
+ * the routine moves past them.
+ */
+export const isStepDone = (habit: Habit, today: string): boolean =>
+  habit.completedDates.includes(today) ||
+  !!habit.skips[today] ||
+  !isHabitDueOn(habit, today);
+
+/**
+ * Get the next step of a routine
+ * @param routine The routine
+ * @param today Today's date key
+ * @returns The index of the first step left to do, or -1 if it's finished
+ */
+export const getNextStepIndex = (routine: Routine, today: string): number =>
+  routine.habits.findIndex((habit) => !isStepDone(habit, today));
+
+/**
+ * Find each stacked habit's place in its routine
+ * @param routines The routines
+ * @param today Today's date key
+ * @returns Routine steps keyed by habit ID
+ */
+export const getRoutineSteps = (
+  routines: Routine[],
+  today: string
+): Record<string, RoutineStep> => {
+  const steps: Record<string, RoutineStep> = {};
+  routines.forEach((routine) => {
+    const nextIndex = getNextStepIndex(routine, today);
+    routine.habits.forEach((habit, index) => {
+      steps[habit.id] = { routine, index, isNext: index === nextIndex };
+    });
+  });
+  return steps;
+};
+
+/**
+ * Keep each routine together in a list
+ * @description A routine is listed, in chain order, where its first listed
+ * habit would be. Other habits keep their order.
+ * @param habits The habits, in display order
+ * @param routines The routines
+ * @returns The reordered habits
+ */
+export const groupRoutines = (
+  habits: Habit[],
+  routines: Routine[]
+): Habit[] => {
+  const listed = new Set(habits.map((habit) => habit.id));
+  const routineOf = new Map<string, Routine>();
+  routines.forEach((routine) =>
+    routine.habits.forEach((habit) => routineOf.set(habit.id, routine))
+  );
+
+  const placed = new Set<string>();
+  return habits.flatMap((habit) => {
+    const routine = routineOf.get(habit.id);
+    if (!routine) return [habit];
+    if (placed.has(routine.id)) return [];
+
+    placed.add(routine.id);
+    return routine.habits.filter((step) => listed.has(step.id));
+  });
+};
@@ -0,0 +1,86 @@
+import { Habit, HabitStats } from '../types';
+import { DateKeyOptions, getDateKey, getTodayKey } from './dateKeys';
+import {
+  getHabitSchedule,
+  getPeriodStart,
+  getPreviousPeriodStart,
+  isPeriodExcused,
+} from './schedule';
+import { getSatisfiedPeriods } from './streaks';
+
+/**
+ * Stats
+ * @description Pure lifetime stats for a habit, counted in periods of its
+ * schedule like streaks are. Paused, skipped and frozen periods are neutral.
+ */
+
+/**
+ * Get the date key a habit started on
+ * @description Past dates can be checked off after creating a habit, so the
+ * earliest completion counts as the start if it's before the created date.
+ * @param habit The habit
+ * @param options The timezone and rollover hour today's date key uses
+ * @returns The date key of the habit's first day
+ */
+export const getHabitStartKey = (
+  habit: Pick<Habit, 'createdAt' | 'completedDates'>,
+  options?: DateKeyOptions
+): string => {
+  const createdKey = getDateKey(new Date(habit.createdAt), options);
+  const earliest = [...habit.completedDates].sort()[0];
+  return earliest && earliest < createdKey ? earliest : createdKey;
+};
+
+/**
+ * Calculate lifetime stats for a habit
+ * @param habit The habit
+ * @param today Today's date key, defaults to the device's local date
+ * @param options The timezone and rollover hour `today` was produced with
+ * @returns The habit's stats
+ */
+export const calculateHabitStats = (
+  habit: Pick<
+    Habit,
+    | 'frequency'
+    | 'schedule'
+    | 'completedDates'
+    | 'createdAt'
+    | 'pauses'
+    | 'frozenDates'
+    | 'skips'
+  >,
+  today: string = getTodayKey(),
+  options?: DateKeyOptions
+): HabitStats => {
+  const schedule = getHabitSchedule(habit);
+  const satisfied = new Set(getSatisfiedPeriods(habit, today));
+  const startKey = getHabitStartKey(habit, options);
+  const firstPeriod = getPeriodStart(schedule, startKey) ?? startKey;
+
+  // Walk back from the current period, which only counts once it's satisfied
+  let cursor = getPeriodStart(schedule, today);
+  if (!cursor || !satisfied.has(cursor)) {
+    cursor = getPreviousPeriodStart(schedule, today);
+  }
+
+  let totalPeriods = 0;
+  let satisfiedPeriods = 0;
+  while (cursor && cursor >= firstPeriod) {
+    // Missed periods that were excused don't count against the rate
+    if (satisfied.has(cursor)) {
+      totalPeriods++;
+      satisfiedPeriods++;
+    } else if (!isPeriodExcused(habit, cursor)) {
+      totalPeriods++;
+    }
+    cursor = getPreviousPeriodStart(schedule, cursor);
+  }
+
+  return {
+    totalCompletions: habit.completedDates.filter((date) => date <= today)
+      .length,
+    satisfiedPeriods,
+    totalPeriods,
+    completionRate: totalPeriods > 0 ? satisfiedPeriods / totalPeriods : 0,
+  };
+};
@@ -0,0 +1,201 @@
+import { Habit, HabitStreak } from '../types';
+import { DateKeyOptions, getTodayKey } from './dateKeys';
+import {
+  getHabitSchedule,
+  getPeriodStart,
+  getPreviousPeriodStart,
+  getRequiredCompletions,
+  isPeriodExcused,
+} from './schedule';
+import { calculateCleanStreak, isBreakingHabit } from './slips';
+
+/**
+ * Streaks
+ * @description Pure streak calculations for habits. A streak counts
+ * consecutive satisfied periods of the habit's schedule, e.g. days for a daily
+ * habit, weeks (Monday to Sunday) for a weekly or N-times-per-week habit, or
+ * the scheduled days for a weekday habit. Periods are identified by the date
+ * key of their first day.
+ */
+
+// One streak freeze is earned for every this many satisfied periods
+export const FREEZE_EARN_PERIODS = 7;
+export const MAX_STREAK_FREEZES = 2;
+
+type StreakHabit = Pick<
+  Habit,
+  | 'frequency'
+  | 'schedule'
+  | 'completedDates'
+  | 'pauses'
+  | 'frozenDates'
+  | 'skips'
+>;
+
+/**
+ * Get the periods a habit's completions satisfy
+ * @description Completions in the future, or on days outside the schedule,
+ * don't count towards any period.
+ * @param habit The habit
+ * @param today Today's date key
+ * @returns The start keys of the satisfied periods, oldest first
+ */
+export const getSatisfiedPeriods = (
+  habit: Pick<Habit, 'frequency' | 'schedule' | 'completedDates'>,
+  today: string
+): string[] => {
+  const schedule = getHabitSchedule(habit);
+  const required = getRequiredCompletions(schedule);
+
+  const counts = new Map<string, number>();
+  new Set(habit.completedDates).forEach((date) => {
+    if (date > today) return;
+    const period = getPeriodStart(schedule, date);
+    if (period) counts.set(period, (counts.get(period) ?? 0) + 1);
+  });
+
+  return Array.from(counts.entries())
+    .filter(([, count]) => count >= required)
+    .map(([period]) => period)
+    .sort();
+};
+
+/**
+ * Get the last period that can currently extend a streak
+ * @description The current period still counts as "in progress", so an
+ * unsatisfied current period doesn't break the streak until it's over.
+ * @param habit The habit
+ * @param satisfied The habit's satisfied periods
+ * @param today Today's date key
+ * @returns The period to start counting back from
+ */
+const getStreakStart = (
+  habit: Pick<Habit, 'frequency' | 'schedule'>,
+  satisfied: Set<string>,
+  today: string
+): string | null => {
+  const schedule = getHabitSchedule(habit);
+  const current = getPeriodStart(schedule, today);
+  return current && satisfied.has(current)
+    ? current
+    : getPreviousPeriodStart(schedule, today);
+};
+
+/**
+ * Calculate the current and longest streak for a habit
+ * @description Periods that are paused, skipped or covered by a streak
+ * freeze are neutral, they don't extend or break the streak.
+ * @param habit The habit to calculate streaks for
+ * @param today Today's date key, defaults to the device's local date
+ * @returns The habit's streak summary
+ */
+export const calculateStreak = (
+  habit: StreakHabit,
+  today: string = getTodayKey()
+): HabitStreak => {
+  const schedule = getHabitSchedule(habit);
+  const satisfiedPeriods = getSatisfiedPeriods(habit, today);
+
+  if (satisfiedPeriods.length === 0) {
+    return { current: 0, longest: 0, lastCompletedPeriod: null };
+  }
+
+  // Walk back to the first satisfied period, counting runs of satisfied
+  // periods. The first run found is the current streak
+  const satisfied = new Set(satisfiedPeriods);
+  const first = satisfiedPeriods[0];
+  let cursor = getStreakStart(habit, satisfied, today);
+  let current: number | null = null;
+  let longest = 0;
+  let run = 0;
+
+  while (cursor && cursor >= first) {
+    if (satisfied.has(cursor)) {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (!isPeriodExcused(habit, cursor)) {
+      current ??= run;
+      run = 0;
+    }
+    cursor = getPreviousPeriodStart(schedule, cursor);
+  }
+
+  return {
+    current: current ?? run,
+    longest,
+    lastCompletedPeriod: satisfiedPeriods[satisfiedPeriods.length - 1],
+  };
+};
+
+/**
+ * Number of streak freezes available for a habit
+ * @description One freeze is earned for every FREEZE_EARN_PERIODS satisfied
+ * periods, and at most MAX_STREAK_FREEZES can be held at a time.
+ * @param habit The habit
+ * @param today Today's date key
+ * @returns How many freezes can be used
+ */
+export const getAvailableStreakFreezes = (
+  habit: StreakHabit,
+  today: string
+): number => {
+  const earned = Math.floor(
+    getSatisfiedPeriods(habit, today).length / FREEZE_EARN_PERIODS
+  );
+  return Math.max(
+    0,
+    Math.min(MAX_STREAK_FREEZES, earned - habit.frozenDates.length)
+  );
+};
+
+/**
+ * Find the missed period a streak freeze would save
+ * @description Only the most recent complete period can be frozen, and only
+ * when it broke a streak, i.e. the period before it was satisfied.
+ * @param habit The habit
+ * @param today Today's date key
+ * @returns The start of the period to freeze, or null if there is none
+ */
+export const getFreezablePeriod = (
+  habit: StreakHabit,
+  today: string
+): string | null => {
+  const schedule = getHabitSchedule(habit);
+  const satisfied = new Set(getSatisfiedPeriods(habit, today));
+  const missed = getStreakStart(habit, satisfied, today);
+  if (!missed || satisfied.has(missed) || isPeriodExcused(habit, missed)) {
+    return null;
+  }
+
+  // Skip neutral periods to find the one the streak ended on
+  let previous = getPreviousPeriodStart(schedule, missed);
+  while (
+    previous &&
+    !satisfied.has(previous) &&
+    isPeriodExcused(habit, previous)
+  ) {
+    previous = getPreviousPeriodStart(schedule, previous);
+  }
+  return previous && satisfied.has(previous) ? missed : null;
+};
+
+/**
+ * Calculate streaks for a list of habits
+ * @description Habits being broken get their clean runs instead.
+ * @param habits The habits to calculate streaks for
+ * @param today Today's date key, defaults to the device's local date
+ * @param options The timezone and rollover hour `today` was produced with
+ * @returns Streak summaries keyed by habit ID
+ */
+export const calculateStreaks = (
+  habits: Habit[],
+  today: string = getTodayKey(),
+  options?: DateKeyOptions
+): Record<string, HabitStreak> => {
+  return habits.reduce<Record<string, HabitStreak>>((acc, habit) => {
+    acc[habit.id] = isBreakingHabit(habit)
+      ? calculateCleanStreak(habit, today, options)
+      : calculateStreak(habit, today);
+    return acc;
+  }, {});
+};
@@ -0,0 +1,147 @@
+import { Habit } from '../types';
+
+/**
+ * Tags
+ * @description Pure helpers for the user-defined tags habits are grouped and
+ * filtered by. Tags keep the case they were typed in but are compared
+ * ignoring case, so "health" and "Health" are the same tag.
+ */
+
+export const TAG_MAX_LENGTH = 24;
+export const MAX_TAGS_PER_HABIT = 5;
+export const UNTAGGED_SECTION_TITLE = 'Other';
+
+/**
+ * A group of habits sharing a tag
+ */
+export interface HabitSection {
+  title: string;
+  data: Habit[];
+}
+
+/**
+ * Clean up a tag as typed by the user
+ * @param tag The tag
+ * @returns The tag with surrounding and repeated whitespace removed
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/\s+/g, ' ');
+
+/**
+ * Check whether two tags are the same, ignoring case
+ */
+export const isSameTag = (a: string, b: string): boolean =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Validate a tag
+ * @param tag The normalized tag
+ * @returns An error message, or null if the tag is valid
+ */
+export const validateTag = (tag: string): string | null => {
+  if (!tag) {
+    return 'Please enter a tag.';
+  }
+  if (tag.length > TAG_MAX_LENGTH) {
+    return `Tags must be ${TAG_MAX_LENGTH} characters or less.`;
+  }
+  return null;
+};
+
+/**
+ * Validate a habit's tags
+ * @param tags The habit's tags
+ * @returns An error message, or null if the tags are valid
+ */
+export const validateTags = (tags: string[]): string | null => {
+  if (tags.length > MAX_TAGS_PER_HABIT) {
+    return `A habit can have at most ${MAX_TAGS_PER_HABIT} tags.`;
+  }
+  return tags.map(validateTag).find(Boolean) ?? null;
+};
+
+/**
+ * Remove duplicate tags, ignoring case and keeping the first spelling
+ * @param tags The tags
+ * @returns The normalized tags without empty or repeated ones
+ */
+export const uniqueTags = (tags: string[]): string[] =>
+  tags
+    .map(normalizeTag)
+    .filter(
+      (tag, index, all) =>
+        tag && all.findIndex((other) => isSameTag(other, tag)) === index
+    );
+
+/**
+ * Get every tag in use or created in the tag manager
+ * @param habits The user's habits
+ * @param savedTags Tags created in the tag manager
+ * @returns The tags, sorted alphabetically
+ */
+export const getAllTags = (habits: Habit[], savedTags: string[]): string[] =>
+  uniqueTags([...savedTags, ...habits.flatMap((habit) => habit.tags)]).sort(
+    (a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' })
+  );
+
+/**
+ * Check whether a habit has a tag
+ */
+export const hasTag = (habit: Pick<Habit, 'tags'>, tag: string): boolean =>
+  habit.tags.some((t) => isSameTag(t, tag));
+
+/**
+ * Filter habits by tags
+ * @param habits The habits
+ * @param filter The selected tags, empty to show every habit
+ * @returns The habits with any of the selected tags
+ */
+export const filterHabitsByTags = (
+  habits: Habit[],
+  filter: string[]
+): Habit[] =>
+  filter.length === 0
+    ? habits
+    : habits.filter((habit) => filter.some((tag) => hasTag(habit, tag)));
+
+/**
+ * Group habits into a section per tag
+ * @description A habit with several tags appears in each of their sections,
+ * and habits without tags are grouped last.
+ * @param habits The habits, in display order
+ * @param tags The tags to group by, in display order
+ * @returns The non-empty sections
+ */
+export const groupHabitsByTag = (
+  habits: Habit[],
+  tags: string[]
+): HabitSection[] => {
+  const sections = tags.map((tag) => ({
+    title: tag,
+    data: habits.filter((habit) => hasTag(habit, tag)),
+  }));
+  sections.push({
+    title: UNTAGGED_SECTION_TITLE,
+    data: habits.filter((habit) => habit.tags.length === 0),
+  });
+  return sections.filter((section) => section.data.length > 0);
+};
+
+/**
+ * Rename a tag in a list of tags
+ * @param tags The tags
+ * @param from The tag to rename
+ * @param to The new name, merged if the list already has it
+ * @returns The updated tags
+ */
+export const renameTagIn = (
+  tags: string[],
+  from: string,
+  to: string
+): string[] => uniqueTags(tags.map((tag) => (isSameTag(tag, from) ? to : tag)));
+
+/**
+ * Remove a tag from a list of tags
+ */
+export const removeTagFrom = (tags: string[], tag: string): string[] =>
+  tags.filter((t) => !isSameTag(t, tag));
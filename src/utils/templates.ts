@@ -0,0 +1,46 @@
+import { Habit, HabitInput, HabitTemplate, HabitTemplatePack } from '../types';
+import { findHabitByTitle } from './habits';
+
+/**
+ * Templates
+ * @description Pure helpers for turning built-in templates into habits. A
+ * template counts as added while the user has a habit with its title, so
+ * adding a pack twice doesn't create duplicates.
+ */
+
+/**
+ * Get the input for creating a habit from a template
+ * @param template The template
+ * @returns The habit to create
+ */
+export const templateToHabitInput = (template: HabitTemplate): HabitInput => ({
+  title: template.title,
+  description: template.description,
+  kind: template.kind,
+  frequency: template.frequency,
+  schedule: template.schedule,
+  target: template.target,
+  color: template.color,
+  icon: template.icon,
+  tags: template.tags ?? [],
+});
+
+/**
+ * Check whether the user already has a template's habit
+ */
+export const isTemplateAdded = (
+  habits: Habit[],
+  template: HabitTemplate
+): boolean => findHabitByTitle(habits, template.title) !== undefined;
+
+/**
+ * Get the templates in a pack the user doesn't have yet
+ * @param habits The user's habits
+ * @param pack The pack
+ * @returns The templates left to add, in pack order
+ */
+export const getTemplatesToAdd = (
+  habits: Habit[],
+  pack: HabitTemplatePack
+): HabitTemplate[] =>
+  pack.templates.filter((template) => !isTemplateAdded(habits, template));
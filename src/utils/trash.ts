@@ -0,0 +1,100 @@
+import { Habit } from '../types';
+import { DateKeyOptions, addDays, diffInDays, getDateKey } from './dateKeys';
+
+/**
+ * Trash
+ * @description Pure helpers for deleted habits. Deleting a habit only marks
+ * it with `deletedAt`, so it can be restored with its history from the Trash
+ * until it's purged for good once the retention period has passed.
+ */
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+/**
+ * Check whether a habit is in the trash
+ */
+export const isTrashed = (habit: Pick<Habit, 'deletedAt'>): boolean =>
+  !!habit.deletedAt;
+
+/**
+ * Move a habit to the trash, or restore it
+ * @param habit The habit to update
+ * @param deletedAt When it was trashed, or null to restore it
+ * @returns The updated habit
+ */
+export const applyDeletedAt = (
+  habit: Habit,
+  deletedAt: string | null
+): Habit => ({ ...habit, deletedAt: deletedAt ?? undefined });
+
+/**
+ * Get the habits in the trash, most recently deleted first
+ */
+export const getTrashedHabits = (habits: Habit[]): Habit[] =>
+  habits
+    .filter(isTrashed)
+    .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+
+/**
+ * Get the date a habit was moved to the trash on
+ * @param habit The trashed habit
+ * @param options The user's timezone and rollover hour
+ * @returns The date key of the deletion
+ */
+export const getDeletedDate = (
+  habit: Pick<Habit, 'deletedAt'>,
+  options?: DateKeyOptions
+): string => getDateKey(new Date(habit.deletedAt ?? 0), options);
+
+/**
+ * Get the date a trashed habit will be purged on
+ * @param habit The trashed habit
+ * @param retentionDays How many days trashed habits are kept
+ * @param options The user's timezone and rollover hour
+ * @returns The date key of the purge
+ */
+export const getPurgeDate = (
+  habit: Pick<Habit, 'deletedAt'>,
+  retentionDays: number,
+  options?: DateKeyOptions
+): string => addDays(getDeletedDate(habit, options), retentionDays);
+
+/**
+ * Get the trashed habits whose retention period has passed
+ * @param habits The habits
+ * @param today Today's date key
+ * @param retentionDays How many days trashed habits are kept
+ * @param options The timezone and rollover hour `today` was produced with
+ * @returns The habits to delete for good
+ */
+export const getHabitsToPurge = (
+  habits: Habit[],
+  today: string,
+  retentionDays: number,
+  options?: DateKeyOptions
+): Habit[] =>
+  habits.filter(
+    (habit) =>
+      isTrashed(habit) && getPurgeDate(habit, retentionDays, options) <= today
+  );
+
+/**
+ * Describe when a trashed habit will be purged, e.g. "Deleted forever in 5
+ * days"
+ * @param habit The trashed habit
+ * @param today Today's date key
+ * @param retentionDays How many days trashed habits are kept
+ * @param options The timezone and rollover hour `today` was produced with
+ * @returns A short human readable label
+ */
+export const formatPurgeCountdown = (
+  habit: Pick<Habit, 'deletedAt'>,
+  today: string,
+  retentionDays: number,
+  options?: DateKeyOptions
+): string => {
+  const days = diffInDays(today, getPurgeDate(habit, retentionDays, options));
+  if (days <= 0) return 'Deleted forever today';
+  return `Deleted forever in ${days} day${days === 1 ? '' : 's'}`;
+};